@@ -0,0 +1,253 @@
+import { randomUUID } from "node:crypto";
+import {
+	chmod,
+	copyFile,
+	mkdir,
+	readdir,
+	rename,
+	rm,
+	stat,
+	writeFile,
+} from "node:fs/promises";
+import { basename, dirname, join } from "node:path";
+import { Uri } from "vscode";
+import { platformSpecificBinaryName } from "./constants";
+import type Logger from "./logger";
+import { hashFile } from "./utils";
+
+/**
+ * Name of the file whose modification time records when a copy was last used
+ */
+const lastUsedFile = "last-used";
+
+/**
+ * Copies of Biome binaries, from which the language server is executed
+ *
+ * Every copy is stored in a directory named after the version and the hash of
+ * the binary. This lets instances share the same copy, and reuse it across
+ * restarts instead of copying the binary every time. Copies that haven't been
+ * used for a while are removed by the garbage collector.
+ */
+export default class BinaryCache {
+	/**
+	 * Number of pending stores per directory, whose copies are never removed
+	 */
+	private readonly storing = new Map<string, number>();
+
+	/**
+	 * The latest garbage collection, which stores wait for before starting
+	 */
+	private collecting: Promise<void> = Promise.resolve();
+
+	/**
+	 * Creates a new binary cache
+	 *
+	 * @param root The directory in which the copies are stored
+	 * @param logger The logger used to report what the cache does
+	 */
+	constructor(
+		public readonly root: Uri,
+		private readonly logger: Logger,
+	) {}
+
+	/**
+	 * Stores a copy of a binary, unless an identical copy already exists
+	 *
+	 * The checksum of the copy is verified before it's returned, so a copy
+	 * that was corrupted or tampered with is never executed.
+	 *
+	 * @param binary The original binary
+	 * @param version The version of the binary, if known
+	 * @returns The copy of the binary
+	 */
+	public async store(binary: Uri, version?: string): Promise<Uri> {
+		const hash = await hashFile(binary.fsPath);
+
+		if (!hash) {
+			throw new Error(`Failed to compute the hash of "${binary.fsPath}".`);
+		}
+
+		const directory = Uri.joinPath(
+			this.root,
+			`${version ?? "unknown"}-${hash.slice(0, 16)}`,
+		);
+		const copy = Uri.joinPath(directory, platformSpecificBinaryName);
+
+		// The directory is only marked once no collection is running, so that a
+		// collection never removes a copy that is being stored.
+		let collecting: Promise<void>;
+		do {
+			collecting = this.collecting;
+			await collecting;
+		} while (collecting !== this.collecting);
+
+		const key = directory.fsPath;
+		this.storing.set(key, (this.storing.get(key) ?? 0) + 1);
+
+		try {
+			if (await this.verify(copy, hash)) {
+				this.logger.debug(`📦 Reusing the copy of Biome at "${copy.fsPath}".`);
+			} else {
+				await this.copy(binary, copy);
+
+				if (!(await this.verify(copy, hash))) {
+					throw new Error(
+						`The checksum of the copy of Biome at "${copy.fsPath}" doesn't match the original binary.`,
+					);
+				}
+
+				this.logger.debug(`📦 Copied Biome to "${copy.fsPath}".`);
+			}
+
+			await writeFile(join(directory.fsPath, lastUsedFile), "");
+		} finally {
+			const count = (this.storing.get(key) ?? 1) - 1;
+
+			if (count > 0) {
+				this.storing.set(key, count);
+			} else {
+				this.storing.delete(key);
+			}
+		}
+
+		return copy;
+	}
+
+	/**
+	 * Removes the copies that haven't been used for a while
+	 *
+	 * Copies that fail to be removed, for example because they're still being
+	 * executed on Windows, are left for the next collection.
+	 *
+	 * @param maxAge The time after which an unused copy is removed, in milliseconds
+	 * @param inUse The copies currently in use, which are never removed
+	 */
+	public collectGarbage(maxAge: number, inUse: Uri[]): Promise<void> {
+		this.collecting = this.collecting.then(() =>
+			this.removeUnusedCopies(maxAge, inUse),
+		);
+
+		return this.collecting;
+	}
+
+	/**
+	 * Removes the copies made by previous versions of the extension
+	 *
+	 * Those were stored in a directory named after the workspace folder, next
+	 * to the cache, and were never removed once the workspace folder was
+	 * renamed or removed.
+	 *
+	 * @returns Whether every legacy copy was removed
+	 */
+	public async removeLegacyCopies(): Promise<boolean> {
+		const storage = dirname(this.root.fsPath);
+		const entries = await readdir(storage, { withFileTypes: true }).catch(
+			() => [],
+		);
+		let removed = true;
+
+		for (const entry of entries) {
+			const directory = join(storage, entry.name);
+
+			if (
+				!entry.isDirectory() ||
+				entry.name === basename(this.root.fsPath) ||
+				!(await stat(join(directory, platformSpecificBinaryName)).then(
+					(stats) => stats.isFile(),
+					() => false,
+				))
+			) {
+				continue;
+			}
+
+			try {
+				await rm(directory, { recursive: true, force: true });
+				this.logger.debug(
+					`🧹 Removed the legacy copy of Biome "${directory}".`,
+				);
+			} catch (error) {
+				removed = false;
+				this.logger.debug(
+					`🧹 Could not remove the legacy copy of Biome "${directory}": ${error}`,
+				);
+			}
+		}
+
+		return removed;
+	}
+
+	/**
+	 * Removes the copies that are neither in use, being stored, nor recently used
+	 */
+	private async removeUnusedCopies(
+		maxAge: number,
+		inUse: Uri[],
+	): Promise<void> {
+		const entries = await readdir(this.root.fsPath, {
+			withFileTypes: true,
+		}).catch(() => []);
+		const used = new Set(inUse.map((copy) => dirname(copy.fsPath)));
+
+		for (const entry of entries) {
+			const directory = join(this.root.fsPath, entry.name);
+
+			if (!entry.isDirectory() || used.has(directory)) {
+				continue;
+			}
+
+			// A copy that is being stored doesn't have a last use yet
+			const lastUsed = await stat(join(directory, lastUsedFile))
+				.catch(() => stat(directory))
+				.then((stats) => stats.mtimeMs)
+				.catch(() => 0);
+
+			if (Date.now() - lastUsed < maxAge || this.storing.has(directory)) {
+				continue;
+			}
+
+			try {
+				await rm(directory, { recursive: true, force: true });
+				this.logger.debug(
+					`🧹 Removed the unused copy of Biome "${directory}".`,
+				);
+			} catch (error) {
+				this.logger.debug(
+					`🧹 Could not remove the unused copy of Biome "${directory}": ${error}`,
+				);
+			}
+		}
+	}
+
+	/**
+	 * Copies a binary, making sure the copy is never partially written
+	 *
+	 * The binary is first copied next to its destination, then moved in place,
+	 * so that concurrent instances storing the same binary don't step on each
+	 * other.
+	 */
+	private async copy(binary: Uri, destination: Uri): Promise<void> {
+		const partial = `${destination.fsPath}.${randomUUID()}.partial`;
+
+		await mkdir(dirname(destination.fsPath), { recursive: true });
+		await copyFile(binary.fsPath, partial);
+		await chmod(partial, 0o755);
+
+		try {
+			await rename(partial, destination.fsPath);
+		} catch (error) {
+			// On Windows, the destination can't be replaced while it's executed,
+			// in which case the existing copy is verified by the caller.
+			await rm(partial, { force: true });
+			this.logger.debug(
+				`📦 Could not replace the copy of Biome at "${destination.fsPath}": ${error}`,
+			);
+		}
+	}
+
+	/**
+	 * Verifies that a copy exists and matches the expected hash
+	 */
+	private async verify(copy: Uri, hash: string): Promise<boolean> {
+		return (await hashFile(copy.fsPath)) === hash;
+	}
+}
@@ -0,0 +1,88 @@
+import {
+	ProgressLocation,
+	type QuickPickItem,
+	QuickPickItemKind,
+	type Uri,
+	window,
+} from "vscode";
+import type Biome from "./biome";
+import { strategyDescriptions } from "./resolution-report";
+
+type BinaryPickItem = QuickPickItem & {
+	binary?: Uri;
+};
+
+/**
+ * Lets the user pick the Biome binary used by an instance
+ *
+ * This function runs every locator strategy and lists the binaries they found
+ * along with their version. The selected binary is pinned for the instance.
+ *
+ * @param biome The Biome instance for which to select a binary
+ */
+export const pickBinary = async (biome: Biome): Promise<void> => {
+	const pinnedBinary = biome.pinnedBinary;
+
+	const items = await window.withProgress(
+		{
+			location: ProgressLocation.Window,
+			title: "Looking for Biome binaries",
+		},
+		() => createItems(biome, pinnedBinary),
+	);
+
+	if (items.length === 0) {
+		window.showWarningMessage(
+			`No Biome binary could be found for ${biome.name}.`,
+		);
+		return;
+	}
+
+	if (pinnedBinary) {
+		items.push(
+			{ label: "", kind: QuickPickItemKind.Separator },
+			{
+				label: "$(pin) Unpin",
+				description: "Let the extension locate Biome automatically",
+				detail: pinnedBinary.fsPath,
+			},
+		);
+	}
+
+	const item = await window.showQuickPick(items, {
+		title: `Select the Biome binary for ${biome.name}`,
+		placeHolder: "Select a Biome binary to pin",
+		matchOnDescription: true,
+		matchOnDetail: true,
+	});
+
+	if (!item || item.binary?.fsPath === pinnedBinary?.fsPath) {
+		return;
+	}
+
+	await biome.pinBinary(item.binary);
+};
+
+/**
+ * Creates the quick pick items for the binaries found by the locator
+ */
+const createItems = async (
+	biome: Biome,
+	pinnedBinary: Uri | undefined,
+): Promise<BinaryPickItem[]> => {
+	const binaries = await biome.locator.findAllBiomes();
+
+	return await Promise.all(
+		binaries.map(async ({ uri, strategy }) => {
+			const version = await biome.probe.version(uri);
+			const isPinned = uri.fsPath === pinnedBinary?.fsPath;
+
+			return {
+				label: `${isPinned ? "$(pinned) " : ""}${version ?? "unknown version"}`,
+				description: strategyDescriptions[strategy],
+				detail: uri.fsPath,
+				binary: uri,
+			};
+		}),
+	);
+};
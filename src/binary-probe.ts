@@ -0,0 +1,279 @@
+import { stat } from "node:fs/promises";
+import type { CancellationToken, Memento, Uri } from "vscode";
+import Capabilities from "./capabilities";
+import { safeSpawn } from "./utils";
+
+/**
+ * Results of probing a Biome binary
+ */
+type ProbeResults = {
+	/**
+	 * Output of `biome --version`
+	 */
+	version?: string;
+
+	/**
+	 * Output of `biome __where_am_i`
+	 */
+	realPath?: string;
+};
+
+/**
+ * Entry of the probe cache
+ *
+ * The modification time and size of the binary are stored alongside the
+ * results, so the entry can be invalidated when the binary changes.
+ */
+type ProbeCacheEntry = ProbeResults & {
+	mtime: number;
+	size: number;
+
+	/**
+	 * When the entry was last written, used to evict the oldest entries
+	 */
+	probedAt?: number;
+};
+
+/**
+ * Maximum number of entries kept in the probe cache
+ */
+const maxCacheEntries = 50;
+
+/**
+ * Probes Biome binaries for their version and real path
+ *
+ * Executing a binary is slow, so the results are persisted in the global
+ * state, keyed by the path of the binary and the directory it was executed
+ * from. An entry is reused as long as the modification time and size of the
+ * binary stay the same, which lets restarts skip the probes entirely.
+ *
+ * Only the results of real binaries are cached. The shims of version
+ * managers such as asdf, mise or proto pick the binary they run from files
+ * like `.tool-versions`, which change without the shim changing, so their
+ * results can't be trusted across probes.
+ */
+export default class BinaryProbe {
+	/**
+	 * The key under which the cache is stored in the global state
+	 */
+	private static readonly stateKey = "binaryProbes";
+
+	/**
+	 * The pending write to the cache
+	 *
+	 * Every probe shares the same key of the global state, so writes are
+	 * chained to prevent concurrent probes from overwriting each other.
+	 */
+	private static pendingWrite: Promise<void> = Promise.resolve();
+
+	/**
+	 * Whether the entries of binaries that no longer exist have been pruned
+	 *
+	 * This only happens once per session, since it requires checking every
+	 * binary in the cache.
+	 */
+	private static pruned = false;
+
+	/**
+	 * Creates a new binary probe
+	 *
+	 * @param state The global state in which the cache is persisted
+	 * @param cwd The directory from which the binaries are executed
+	 */
+	constructor(
+		private readonly state: Memento,
+		private readonly cwd?: string,
+	) {}
+
+	/**
+	 * Retrieves the version of a Biome binary
+	 *
+	 * @param binary URI of the Biome binary
+	 * @param token Token used to cancel the probe
+	 * @returns The version of the binary, if it could be determined
+	 */
+	public async version(
+		binary: Uri,
+		token?: CancellationToken,
+	): Promise<string | undefined> {
+		return await this.probe(binary, "version", token, async () =>
+			(
+				await safeSpawn(binary.fsPath, ["--version"], {
+					cwd: this.cwd,
+					token,
+				})
+			)
+				?.split("Version: ")[1]
+				?.trim(),
+		);
+	}
+
+	/**
+	 * Retrieves the capabilities of a Biome binary, as inferred from its version
+	 *
+	 * @param binary URI of the Biome binary
+	 * @param token Token used to cancel the probe
+	 */
+	public async capabilities(
+		binary: Uri,
+		token?: CancellationToken,
+	): Promise<Capabilities> {
+		return new Capabilities(await this.version(binary, token));
+	}
+
+	/**
+	 * Retrieves the real path of a Biome binary
+	 *
+	 * This runs the `__where_am_i` command, which is only supported by Biome 2
+	 * and later.
+	 *
+	 * @param binary URI of the Biome binary, which may be a shim
+	 * @param token Token used to cancel the probe
+	 * @returns The real path of the binary, if it could be determined
+	 */
+	public async realPath(
+		binary: Uri,
+		token?: CancellationToken,
+	): Promise<string | undefined> {
+		return await this.probe(binary, "realPath", token, () =>
+			this.whereAmI(binary, token),
+		);
+	}
+
+	/**
+	 * Runs the `__where_am_i` command of a binary
+	 */
+	private whereAmI(
+		binary: Uri,
+		token: CancellationToken | undefined,
+	): Promise<string | undefined> {
+		return safeSpawn(binary.fsPath, ["__where_am_i"], { cwd: this.cwd, token });
+	}
+
+	/**
+	 * Runs a probe, unless its result is already cached
+	 */
+	private async probe(
+		binary: Uri,
+		field: keyof ProbeResults,
+		token: CancellationToken | undefined,
+		run: () => Promise<string | undefined>,
+	): Promise<string | undefined> {
+		const stats = await stat(binary.fsPath).catch(() => undefined);
+
+		if (!stats) {
+			return undefined;
+		}
+
+		const key = `${this.cwd ?? ""}|${binary.fsPath}`;
+		const cache = this.state.get<Record<string, ProbeCacheEntry>>(
+			BinaryProbe.stateKey,
+			{},
+		);
+
+		const cached = cache[key];
+		const isFresh =
+			cached?.mtime === stats.mtimeMs &&
+			cached?.size === stats.size &&
+			cached?.realPath === binary.fsPath;
+
+		if (isFresh && cached[field] !== undefined) {
+			return cached[field];
+		}
+
+		const result = await run();
+
+		// Don't cache the absence of a result if the probe was cancelled, since
+		// it doesn't tell us anything about the binary.
+		if (result === undefined && token?.isCancellationRequested) {
+			return undefined;
+		}
+
+		// A binary that isn't its own real path is a shim, and binaries that
+		// can't tell their real path, such as Biome 1, might be.
+		const realPath =
+			field === "realPath" ? result : await this.whereAmI(binary, token);
+
+		if (realPath !== binary.fsPath) {
+			return result;
+		}
+
+		await this.write(key, (entry) => ({
+			...(entry?.mtime === stats.mtimeMs && entry?.size === stats.size
+				? entry
+				: {}),
+			mtime: stats.mtimeMs,
+			size: stats.size,
+			probedAt: Date.now(),
+			realPath,
+			[field]: result,
+		}));
+
+		return result;
+	}
+
+	/**
+	 * Writes an entry of the cache
+	 *
+	 * The cache is read again once previous writes have completed, so that the
+	 * entries they wrote are preserved. Entries of binaries that no longer
+	 * exist are pruned, and the oldest entries are evicted when the cache is
+	 * full.
+	 *
+	 * @param key The key of the entry
+	 * @param update Computes the entry from its current value
+	 */
+	private write(
+		key: string,
+		update: (entry: ProbeCacheEntry | undefined) => ProbeCacheEntry,
+	): Promise<void> {
+		const write = BinaryProbe.pendingWrite.then(async () => {
+			let entries = Object.entries(
+				this.state.get<Record<string, ProbeCacheEntry>>(
+					BinaryProbe.stateKey,
+					{},
+				),
+			);
+
+			if (!BinaryProbe.pruned) {
+				BinaryProbe.pruned = true;
+				entries = await pruneMissingBinaries(entries);
+			}
+
+			const cache = Object.fromEntries(entries);
+			cache[key] = update(cache[key]);
+
+			const kept = Object.entries(cache)
+				.sort(([, a], [, b]) => (b.probedAt ?? 0) - (a.probedAt ?? 0))
+				.slice(0, maxCacheEntries);
+
+			await this.state.update(BinaryProbe.stateKey, Object.fromEntries(kept));
+		});
+
+		// A failed write must not prevent the next ones
+		BinaryProbe.pendingWrite = write.catch(() => {});
+
+		return write;
+	}
+}
+
+/**
+ * Removes the entries of the binaries that no longer exist
+ *
+ * Keys are made of the directory the binary was executed from and the path
+ * of the binary, separated by a pipe.
+ */
+const pruneMissingBinaries = async (
+	entries: [string, ProbeCacheEntry][],
+): Promise<[string, ProbeCacheEntry][]> => {
+	const exists = await Promise.all(
+		entries.map(([key]) =>
+			stat(key.slice(key.lastIndexOf("|") + 1)).then(
+				() => true,
+				() => false,
+			),
+		),
+	);
+
+	return entries.filter((_, index) => exists[index]);
+};
@@ -0,0 +1,253 @@
+import { satisfies } from "semver";
+import { commands, ShellExecution, Task, tasks, Uri, window } from "vscode";
+import { pickBinary } from "./binary-picker";
+import type Biome from "./biome";
+import { lockfiles } from "./constants";
+import { strategyDescriptions } from "./resolution-report";
+import type { LocatedBinary, PackageManager } from "./types";
+import { fileExists } from "./utils";
+
+/**
+ * Commands installing Biome as a development dependency, per package manager
+ */
+const installCommands: Record<PackageManager, string> = {
+	npm: "npm install --save-dev --save-exact @biomejs/biome",
+	yarn: "yarn add --dev --exact @biomejs/biome",
+	pnpm: "pnpm add --save-dev --save-exact @biomejs/biome",
+	bun: "bun add --dev --exact @biomejs/biome",
+	deno: "deno add --dev npm:@biomejs/biome",
+};
+
+/**
+ * Files telling that a folder is a project in which Biome can be installed
+ */
+const projectManifests = ["package.json", "deno.json", "deno.jsonc"];
+
+/**
+ * Instances for which a recovery notification is currently displayed
+ */
+const pendingRecoveries = new WeakSet<Biome>();
+
+/**
+ * Offers ways to recover when no Biome binary could be found for an instance
+ *
+ * The notification offers to install Biome with the package manager of the
+ * project, to pick a binary, or to specify one in the settings. It's only
+ * shown for folders that are JavaScript projects, since the other ones most
+ * likely don't use Biome, and not anymore once the user dismissed it for the
+ * folder.
+ *
+ * @param biome The Biome instance for which no binary was found
+ */
+export const offerBinaryRecovery = async (biome: Biome): Promise<void> => {
+	const folder = biome.workspaceFolder;
+
+	if (!folder || pendingRecoveries.has(biome)) {
+		return;
+	}
+
+	const workspaceState = biome.extension.context.workspaceState;
+	const dismissedKey = `binaryRecoveryDismissed:${folder.uri.toString()}`;
+
+	if (workspaceState.get<boolean>(dismissedKey)) {
+		biome.logger.debug(
+			"Not offering to install Biome, since the notification was dismissed.",
+		);
+		return;
+	}
+
+	if (!(await isProject(folder.uri))) {
+		biome.logger.info(
+			`Not offering to install Biome, since ${biome.name} has no ${projectManifests.join(" or ")}.`,
+		);
+		return;
+	}
+
+	pendingRecoveries.add(biome);
+
+	const packageManager = await detectPackageManager(folder.uri);
+	const installAction = `Install with ${packageManager}`;
+	const selectAction = "Select Binary";
+	const settingsAction = "Open Settings";
+	const dismissAction = "Don't Show Again";
+
+	const action = await window.showWarningMessage(
+		`Biome could not be found in ${biome.name}. Install it as a development dependency, or tell the extension where to find it.`,
+		installAction,
+		selectAction,
+		settingsAction,
+		dismissAction,
+	);
+
+	pendingRecoveries.delete(biome);
+
+	if (action === installAction) {
+		await installBiome(biome, packageManager);
+	}
+
+	if (action === selectAction) {
+		await pickBinary(biome);
+	}
+
+	if (action === settingsAction) {
+		await commands.executeCommand(
+			"workbench.action.openSettings",
+			"biome.lsp.bin",
+		);
+	}
+
+	if (action === dismissAction) {
+		await workspaceState.update(dismissedKey, true);
+	}
+};
+
+/**
+ * Offers the binaries satisfying the required version range of an instance
+ *
+ * This is shown when the binary found for an instance doesn't satisfy the
+ * required version. Every binary the locator can find is probed, and the ones
+ * within the range can be pinned in a single click.
+ *
+ * @param biome The Biome instance whose binary has an unsupported version
+ * @param range The range of versions required for the instance
+ * @param reason The explanation of why the version is unsupported
+ */
+export const offerSupportedVersions = async (
+	biome: Biome,
+	range: string,
+	reason: string,
+): Promise<void> => {
+	if (pendingRecoveries.has(biome)) {
+		return;
+	}
+
+	pendingRecoveries.add(biome);
+
+	const alternatives = await findSupportedBinaries(biome, range);
+	const actions = new Map<string, () => Promise<void>>();
+
+	for (const { uri, strategy, version } of alternatives) {
+		actions.set(
+			`Use Biome ${version} (${strategyDescriptions[strategy]})`,
+			() => biome.pinBinary(uri),
+		);
+	}
+
+	actions.set("Select Binary", () => pickBinary(biome));
+
+	if (alternatives.length === 0) {
+		actions.set("Open Settings", async () => {
+			await commands.executeCommand(
+				"workbench.action.openSettings",
+				"biome.requiredVersion",
+			);
+		});
+	}
+
+	const action = await window.showWarningMessage(reason, ...actions.keys());
+
+	pendingRecoveries.delete(biome);
+
+	if (action) {
+		await actions.get(action)?.();
+	}
+};
+
+/**
+ * Finds the binaries available to an instance that satisfy a version range
+ */
+const findSupportedBinaries = async (
+	biome: Biome,
+	range: string,
+): Promise<(LocatedBinary & { version: string })[]> => {
+	const supported: (LocatedBinary & { version: string })[] = [];
+
+	for (const binary of await biome.locator.findAllBiomes()) {
+		const version = await biome.probe.version(binary.uri);
+
+		if (version && satisfies(version, range)) {
+			supported.push({ ...binary, version });
+		}
+	}
+
+	return supported;
+};
+
+/**
+ * Determines whether a folder is a project in which Biome can be installed
+ */
+const isProject = async (root: Uri): Promise<boolean> => {
+	for (const manifest of projectManifests) {
+		if (await fileExists(Uri.joinPath(root, manifest))) {
+			return true;
+		}
+	}
+
+	return false;
+};
+
+/**
+ * Detects the package manager of a project from its lockfile
+ *
+ * Defaults to npm when the project doesn't have a lockfile.
+ */
+const detectPackageManager = async (root: Uri): Promise<PackageManager> => {
+	for (const [lockfile, packageManager] of Object.entries(lockfiles)) {
+		if (await fileExists(Uri.joinPath(root, lockfile))) {
+			return packageManager;
+		}
+	}
+
+	return "npm";
+};
+
+/**
+ * Installs Biome in an integrated terminal, and restarts the instance once
+ * the installation succeeds.
+ */
+const installBiome = async (
+	biome: Biome,
+	packageManager: PackageManager,
+): Promise<void> => {
+	const folder = biome.workspaceFolder;
+
+	if (!folder) {
+		return;
+	}
+
+	const command = installCommands[packageManager];
+	const task = new Task(
+		{ type: "shell" },
+		folder,
+		"Install Biome",
+		"biome",
+		new ShellExecution(command, { cwd: folder.uri.fsPath }),
+	);
+
+	biome.logger.info(`📦 Installing Biome with "${command}".`);
+
+	const execution = await tasks.executeTask(task);
+
+	const listener = tasks.onDidEndTaskProcess(async (event) => {
+		if (event.execution !== execution) {
+			return;
+		}
+
+		listener.dispose();
+
+		if (event.exitCode !== 0) {
+			biome.logger.error(
+				`📦 Installing Biome failed with exit code ${event.exitCode}.`,
+			);
+			return;
+		}
+
+		biome.logger.info("📦 Biome was installed successfully.");
+
+		// Installing Biome updates the lockfile, which may already have
+		// restarted the instance.
+		if (biome.state === "binary-not-found") {
+			await biome.restart();
+		}
+	});
+};
@@ -0,0 +1,805 @@
+import { basename, dirname, join, relative, resolve, sep } from "node:path";
+import ignore, { type Ignore } from "ignore";
+import {
+	findNodeAtLocation,
+	getNodeValue,
+	type Node,
+	type ParseError,
+	parseTree,
+} from "jsonc-parser";
+import { Minimatch } from "minimatch";
+import {
+	type Disposable,
+	EventEmitter,
+	Position,
+	Range,
+	RelativePattern,
+	Uri,
+	workspace,
+} from "vscode";
+import { configurationFileNames } from "./constants";
+
+type JsonValue =
+	| null
+	| boolean
+	| number
+	| string
+	| JsonValue[]
+	| { [key: string]: JsonValue };
+
+/**
+ * Features of Biome that can be enabled or disabled per file
+ */
+export type Feature = "formatter" | "linter";
+
+/**
+ * An entry of the configuration file
+ */
+export type ConfigurationEntry = {
+	/**
+	 * Human-readable description of the entry
+	 */
+	description: string;
+
+	/**
+	 * Path of the entry in the configuration file
+	 *
+	 * @example "files.includes.2"
+	 */
+	path: string;
+};
+
+/**
+ * Whether a feature is enabled for a file, and which entry decided it
+ */
+export type FeatureState = {
+	enabled: boolean;
+	entry?: ConfigurationEntry;
+};
+
+/**
+ * Result of inspecting how Biome handles a file
+ */
+export type FileInspection = {
+	/**
+	 * The entry because of which the file is ignored, if it is
+	 */
+	ignoredBy?: ConfigurationEntry;
+
+	/**
+	 * Whether the file is formatted
+	 */
+	formatter: FeatureState;
+
+	/**
+	 * Whether the file is linted
+	 */
+	linter: FeatureState;
+};
+
+/**
+ * Options for checking whether a path is ignored
+ */
+export type IgnoreOptions = {
+	/**
+	 * Determines whether the path is a directory
+	 *
+	 * Directories aren't reported as ignored merely because no glob matches
+	 * them, since they may still contain files that are included. This is only
+	 * called when the globs can't tell on their own, which spares a filesystem
+	 * access for most paths.
+	 */
+	isDirectory?: () => Thenable<boolean>;
+};
+
+/**
+ * An ignore file of the VCS integration
+ */
+type IgnoreFile = {
+	/**
+	 * Path of the ignore file
+	 */
+	path: string;
+
+	/**
+	 * The directory against which the patterns of the file are resolved
+	 */
+	root: string;
+
+	/**
+	 * The patterns of the file
+	 */
+	patterns: Ignore;
+};
+
+/**
+ * Names of the ignore files read by the VCS integration, in increasing order
+ * of precedence
+ */
+const ignoreFileNames = [".gitignore", ".ignore"];
+
+/**
+ * Sections of the configuration holding the language-specific settings,
+ * keyed by the identifier of the language in VS Code
+ */
+const languageSections: Record<string, string> = {
+	javascript: "javascript",
+	javascriptreact: "javascript",
+	typescript: "javascript",
+	typescriptreact: "javascript",
+	json: "json",
+	jsonc: "json",
+	snippets: "json",
+	css: "css",
+	tailwindcss: "css",
+	graphql: "graphql",
+	grit: "grit",
+	html: "html",
+	astro: "html",
+	svelte: "html",
+	vue: "html",
+};
+
+/**
+ * A parsed Biome configuration file
+ *
+ * This is a lightweight reading of the configuration, used to explain to
+ * users how Biome handles their files without asking the language server. It
+ * covers the top-level `files`, `formatter` and `linter` sections, the
+ * language-specific sections, and `overrides` of the root configuration file
+ * only, along with the `.gitignore` and `.ignore` files of the VCS root when
+ * `vcs.useIgnoreFile` is enabled.
+ *
+ * Anything else that Biome takes into account is out of reach, such as
+ * `extends` and nested configuration files. Rather than guessing,
+ * {@link BiomeConfiguration.limitation} tells when a file can't be inspected
+ * reliably.
+ */
+export default class BiomeConfiguration {
+	/**
+	 * Cache of the parsed configuration files, keyed by their URI
+	 */
+	private static cache = new Map<
+		string,
+		Promise<BiomeConfiguration | undefined>
+	>();
+
+	/**
+	 * Emits when a configuration file changes
+	 */
+	private static emitter = new EventEmitter<Uri>();
+
+	/**
+	 * Event fired with the configuration files invalidated by a change
+	 */
+	public static readonly onDidChange = BiomeConfiguration.emitter.event;
+
+	/**
+	 * The directory against which the globs of the configuration are resolved
+	 */
+	public readonly root: string;
+
+	/**
+	 * The parsed value of the configuration file
+	 */
+	private readonly value: JsonValue;
+
+	private constructor(
+		public readonly uri: Uri,
+		private readonly text: string,
+		private readonly tree: Node,
+		private readonly nestedRoots: string[],
+		private readonly ignoreFiles: IgnoreFile[],
+	) {
+		this.root = dirname(uri.fsPath);
+		this.value = getNodeValue(tree);
+	}
+
+	/**
+	 * Loads a configuration file
+	 *
+	 * Parsed configuration files are cached until they are invalidated with
+	 * {@link BiomeConfiguration.clearCache}.
+	 *
+	 * @returns The configuration, or `undefined` if it couldn't be parsed
+	 */
+	public static load(uri: Uri): Promise<BiomeConfiguration | undefined> {
+		const key = uri.toString();
+		let configuration = BiomeConfiguration.cache.get(key);
+
+		if (!configuration) {
+			configuration = BiomeConfiguration.read(uri);
+			BiomeConfiguration.cache.set(key, configuration);
+		}
+
+		return configuration;
+	}
+
+	/**
+	 * Watches the configuration files and the ignore files of the workspace
+	 *
+	 * A change only invalidates the configuration file that changed. Creating
+	 * or deleting a configuration file also invalidates the configuration
+	 * files above it, since their nested configurations changed. A change to
+	 * an ignore file invalidates the configuration files reading it, or that
+	 * would read it once it exists. Every invalidated configuration file fires
+	 * {@link BiomeConfiguration.onDidChange}.
+	 */
+	public static watch(): Disposable[] {
+		const watcher = workspace.createFileSystemWatcher(
+			`**/{${configurationFileNames.join(",")}}`,
+		);
+		const ignoreFileWatcher = workspace.createFileSystemWatcher(
+			`**/{${ignoreFileNames.join(",")}}`,
+		);
+
+		const invalidate = (uri: Uri, ancestors: boolean) => {
+			const invalidated = [...BiomeConfiguration.cache.keys()]
+				.map((key) => Uri.parse(key))
+				.filter(
+					(cached) =>
+						cached.toString() === uri.toString() ||
+						(ancestors &&
+							!relative(dirname(cached.fsPath), uri.fsPath).startsWith("..")),
+				);
+
+			for (const cached of invalidated) {
+				BiomeConfiguration.clearCache(cached);
+				BiomeConfiguration.emitter.fire(cached);
+			}
+		};
+
+		const invalidateReaders = async (uri: Uri) => {
+			for (const [key, configuration] of [...BiomeConfiguration.cache]) {
+				if (
+					(await configuration)?.readsIgnoreFile(uri) &&
+					BiomeConfiguration.cache.get(key) === configuration
+				) {
+					const cached = Uri.parse(key);
+					BiomeConfiguration.clearCache(cached);
+					BiomeConfiguration.emitter.fire(cached);
+				}
+			}
+		};
+
+		return [
+			watcher,
+			watcher.onDidChange((uri) => invalidate(uri, false)),
+			watcher.onDidCreate((uri) => invalidate(uri, true)),
+			watcher.onDidDelete((uri) => invalidate(uri, true)),
+			ignoreFileWatcher,
+			ignoreFileWatcher.onDidChange(invalidateReaders),
+			ignoreFileWatcher.onDidCreate(invalidateReaders),
+			ignoreFileWatcher.onDidDelete(invalidateReaders),
+		];
+	}
+
+	/**
+	 * Clears the cache of parsed configuration files
+	 *
+	 * @param uri The configuration file to invalidate, or all of them if omitted
+	 */
+	public static clearCache(uri?: Uri): void {
+		if (uri) {
+			BiomeConfiguration.cache.delete(uri.toString());
+		} else {
+			BiomeConfiguration.cache.clear();
+		}
+	}
+
+	private static async read(uri: Uri): Promise<BiomeConfiguration | undefined> {
+		try {
+			const text = new TextDecoder().decode(await workspace.fs.readFile(uri));
+			const errors: ParseError[] = [];
+			const tree = parseTree(text, errors, { allowTrailingComma: true });
+
+			if (!tree || errors.length > 0) {
+				return undefined;
+			}
+
+			const root = dirname(uri.fsPath);
+
+			return new BiomeConfiguration(
+				uri,
+				text,
+				tree,
+				await findNestedRoots(root),
+				await readIgnoreFiles(getNodeValue(tree), root),
+			);
+		} catch {
+			return undefined;
+		}
+	}
+
+	/**
+	 * Retrieves the value of an entry of the configuration
+	 *
+	 * @param path Path of the entry, such as `files.includes`
+	 */
+	public get(path: string): JsonValue | undefined {
+		return lookup(this.value, path);
+	}
+
+	/**
+	 * Retrieves the range of an entry in the configuration file
+	 *
+	 * @param path Path of the entry, such as `files.includes.2`
+	 */
+	public locate(path: string): Range {
+		const node = findNodeAtLocation(
+			this.tree,
+			path
+				.split(".")
+				.map((segment) => (/^\d+$/.test(segment) ? Number(segment) : segment)),
+		);
+
+		// Properties are located by their key rather than by their value
+		const offset =
+			(node?.parent?.type === "property" ? node.parent.offset : node?.offset) ??
+			0;
+		const lines = this.text.slice(0, offset).split("\n");
+		const position = new Position(
+			lines.length - 1,
+			lines[lines.length - 1].length,
+		);
+
+		return new Range(position, position);
+	}
+
+	/**
+	 * Returns the path of a file relative to the root of the configuration,
+	 * using forward slashes, or `undefined` if the file is outside of it.
+	 */
+	public relativePath(file: Uri): string | undefined {
+		const path = relative(this.root, file.fsPath);
+
+		if (path.startsWith("..") || path === "") {
+			return undefined;
+		}
+
+		return path.split(sep).join("/");
+	}
+
+	/**
+	 * Determines whether the configuration ignores a file or a directory
+	 *
+	 * @returns The entry because of which the file is ignored, if it is
+	 */
+	public async ignores(
+		file: Uri,
+		{ isDirectory = async () => false }: IgnoreOptions = {},
+	): Promise<ConfigurationEntry | undefined> {
+		const path = this.relativePath(file);
+
+		if (path === undefined) {
+			return undefined;
+		}
+
+		// Several checks may need to know, but the filesystem is only asked once
+		let directory: Thenable<boolean> | undefined;
+		const isDirectoryOnce = () => {
+			directory ??= isDirectory();
+			return directory;
+		};
+
+		return (
+			(await this.checkIncludes("files.includes", path, isDirectoryOnce)) ??
+			(await this.checkLegacyIncludes("files", path, isDirectoryOnce)) ??
+			(await this.checkIgnoreFiles(file, isDirectoryOnce))
+		);
+	}
+
+	/**
+	 * Determines whether the configuration reads an ignore file, or would read
+	 * it if it existed
+	 */
+	public readsIgnoreFile(uri: Uri): boolean {
+		const vcsRoot = resolveVcsRoot(this.value, this.root);
+
+		return (
+			vcsRoot !== undefined &&
+			ignoreFileNames.includes(basename(uri.fsPath)) &&
+			!relative(vcsRoot, uri.fsPath).startsWith("..")
+		);
+	}
+
+	/**
+	 * Explains why the configuration can't tell how Biome handles a file
+	 *
+	 * @returns The reason, or `undefined` if the file can be inspected
+	 */
+	public limitation(file: Uri): string | undefined {
+		if (this.get("extends") !== undefined) {
+			return 'The configuration uses "extends", which is not followed';
+		}
+
+		const nestedRoot = this.nestedRoots.find(
+			(root) => !relative(root, file.fsPath).startsWith(".."),
+		);
+
+		if (nestedRoot !== undefined) {
+			return `The file is governed by the nested configuration in "${relative(this.root, nestedRoot).split(sep).join("/")}"`;
+		}
+
+		return undefined;
+	}
+
+	/**
+	 * Inspects how Biome handles a file
+	 *
+	 * @param file The file to inspect
+	 * @param languageId The identifier of the language of the file
+	 */
+	public async inspect(file: Uri, languageId: string): Promise<FileInspection> {
+		const ignoredBy = await this.ignores(file);
+
+		if (ignoredBy) {
+			const disabled = { enabled: false, entry: ignoredBy };
+			return { ignoredBy, formatter: disabled, linter: disabled };
+		}
+
+		return {
+			formatter: await this.inspectFeature("formatter", file, languageId),
+			linter: await this.inspectFeature("linter", file, languageId),
+		};
+	}
+
+	/**
+	 * Determines whether a feature is enabled for a file
+	 */
+	private async inspectFeature(
+		feature: Feature,
+		file: Uri,
+		languageId: string,
+	): Promise<FeatureState> {
+		const path = this.relativePath(file);
+		const section = languageSections[languageId];
+		const excludedBy =
+			path !== undefined
+				? ((await this.checkIncludes(`${feature}.includes`, path)) ??
+					(await this.checkLegacyIncludes(feature, path)))
+				: undefined;
+
+		// The first entry disabling the feature is the one that matters, since
+		// the other ones can't enable it back.
+		let state: FeatureState = [
+			this.checkEnabled(`${feature}.enabled`),
+			excludedBy && { enabled: false, entry: excludedBy },
+			section ? this.checkEnabled(`${section}.${feature}.enabled`) : undefined,
+		].find((candidate) => candidate?.enabled === false) ?? {
+			enabled: true,
+		};
+
+		const overrides = this.get("overrides");
+
+		if (path === undefined || !Array.isArray(overrides)) {
+			return state;
+		}
+
+		// Overrides are applied in order, so the last matching one wins
+		for (const [index, override] of overrides.entries()) {
+			const patterns =
+				lookup(override, "includes") ?? lookup(override, "include");
+
+			if (!isStringArray(patterns) || !matchesGlobs(patterns, path).matched) {
+				continue;
+			}
+
+			for (const candidate of [
+				`overrides.${index}.${feature}.enabled`,
+				...(section
+					? [`overrides.${index}.${section}.${feature}.enabled`]
+					: []),
+			]) {
+				const overridden = this.checkEnabled(candidate);
+				if (overridden) {
+					state = overridden;
+				}
+			}
+		}
+
+		return state;
+	}
+
+	/**
+	 * Reads a boolean `enabled` entry, if it's specified
+	 */
+	private checkEnabled(path: string): FeatureState | undefined {
+		const value = this.get(path);
+
+		if (typeof value !== "boolean") {
+			return undefined;
+		}
+
+		return {
+			enabled: value,
+			entry: { description: `"${path}" is set to ${value}`, path },
+		};
+	}
+
+	/**
+	 * Checks a path against an `includes` entry
+	 *
+	 * @returns The entry excluding the path, if it does
+	 */
+	private async checkIncludes(
+		key: string,
+		path: string,
+		isDirectory: () => Thenable<boolean> = async () => false,
+	): Promise<ConfigurationEntry | undefined> {
+		const patterns = this.get(key);
+
+		if (!isStringArray(patterns)) {
+			return undefined;
+		}
+
+		const { matched, index } = matchesGlobs(patterns, path);
+
+		if (matched) {
+			return undefined;
+		}
+
+		// A directory that no glob matches may still contain included files
+		if (
+			index === undefined &&
+			mayMatchDescendants(patterns, path) &&
+			(await isDirectory())
+		) {
+			return undefined;
+		}
+
+		return index !== undefined
+			? {
+					description: `Excluded by "${patterns[index]}" in "${key}"`,
+					path: `${key}.${index}`,
+				}
+			: { description: `Not matched by "${key}"`, path: key };
+	}
+
+	/**
+	 * Checks a file against the ignore files of the VCS integration
+	 *
+	 * The ignore files are read from the least to the most specific one, so
+	 * that a nested ignore file can override the patterns of its parents.
+	 *
+	 * @returns The entry enabling the ignore files, if they ignore the file
+	 */
+	private async checkIgnoreFiles(
+		file: Uri,
+		isDirectory: () => Thenable<boolean>,
+	): Promise<ConfigurationEntry | undefined> {
+		let ignoredBy: ConfigurationEntry | undefined;
+
+		for (const { path, root, patterns } of this.ignoreFiles) {
+			const relativePath = relative(root, file.fsPath);
+
+			if (relativePath.startsWith("..") || relativePath === "") {
+				continue;
+			}
+
+			const candidate = relativePath.split(sep).join("/");
+			let result = patterns.test(candidate);
+
+			// Patterns ending with a slash only match directories
+			if (
+				!result.ignored &&
+				!result.unignored &&
+				patterns.test(`${candidate}/`).ignored &&
+				(await isDirectory())
+			) {
+				result = patterns.test(`${candidate}/`);
+			}
+
+			if (result.ignored) {
+				ignoredBy = {
+					description: `Ignored by "${result.rule?.pattern}" in "${relative(this.root, path).split(sep).join("/")}"`,
+					path: "vcs.useIgnoreFile",
+				};
+			} else if (result.unignored) {
+				ignoredBy = undefined;
+			}
+		}
+
+		return ignoredBy;
+	}
+
+	/**
+	 * Checks a path against the `include` and `ignore` entries of Biome 1
+	 *
+	 * @returns The entry excluding the path, if it does
+	 */
+	private async checkLegacyIncludes(
+		section: string,
+		path: string,
+		isDirectory: () => Thenable<boolean> = async () => false,
+	): Promise<ConfigurationEntry | undefined> {
+		const ignore = this.get(`${section}.ignore`);
+
+		if (isStringArray(ignore)) {
+			const index = ignore.findIndex((pattern) => matchesGlob(pattern, path));
+
+			if (index !== -1) {
+				return {
+					description: `Ignored by "${ignore[index]}" in "${section}.ignore"`,
+					path: `${section}.ignore.${index}`,
+				};
+			}
+		}
+
+		const include = this.get(`${section}.include`);
+
+		if (
+			isStringArray(include) &&
+			!include.some((pattern) => matchesGlob(pattern, path)) &&
+			!(mayMatchDescendants(include, path) && (await isDirectory()))
+		) {
+			return {
+				description: `Not matched by "${section}.include"`,
+				path: `${section}.include`,
+			};
+		}
+
+		return undefined;
+	}
+}
+
+/**
+ * Finds the directories containing a nested configuration file
+ */
+const findNestedRoots = async (root: string): Promise<string[]> => {
+	const files = await workspace.findFiles(
+		new RelativePattern(root, `**/{${configurationFileNames.join(",")}}`),
+		"**/node_modules/**",
+	);
+
+	return files
+		.map((file) => dirname(file.fsPath))
+		.filter((directory) => directory !== root);
+};
+
+/**
+ * Resolves the directory holding the ignore files of the VCS integration
+ *
+ * @returns The directory, or `undefined` if the ignore files aren't used
+ */
+const resolveVcsRoot = (value: JsonValue, root: string): string | undefined => {
+	if (
+		lookup(value, "vcs.enabled") !== true ||
+		lookup(value, "vcs.useIgnoreFile") !== true
+	) {
+		return undefined;
+	}
+
+	const vcsRoot = lookup(value, "vcs.root");
+
+	return typeof vcsRoot === "string" ? resolve(root, vcsRoot) : root;
+};
+
+/**
+ * Reads the ignore files of the VCS integration, if it uses them
+ *
+ * The ignore files at the VCS root are read directly, since it may lie
+ * outside of the workspace where nested ones can't be searched for.
+ *
+ * @returns The ignore files, from the least to the most specific one
+ */
+const readIgnoreFiles = async (
+	value: JsonValue,
+	root: string,
+): Promise<IgnoreFile[]> => {
+	const directory = resolveVcsRoot(value, root);
+
+	if (directory === undefined) {
+		return [];
+	}
+
+	const nested = await workspace.findFiles(
+		new RelativePattern(directory, `**/{${ignoreFileNames.join(",")}}`),
+		"**/node_modules/**",
+	);
+
+	const paths = [
+		...new Set([
+			...ignoreFileNames.map((name) => join(directory, name)),
+			...nested.map((file) => file.fsPath),
+		]),
+	].sort(
+		(a, b) =>
+			a.split(sep).length - b.split(sep).length ||
+			ignoreFileNames.indexOf(basename(a)) -
+				ignoreFileNames.indexOf(basename(b)),
+	);
+
+	const ignoreFiles = await Promise.all(
+		paths.map(async (path): Promise<IgnoreFile | undefined> => {
+			try {
+				const content = await workspace.fs.readFile(Uri.file(path));
+
+				return {
+					path,
+					root: dirname(path),
+					patterns: ignore().add(new TextDecoder().decode(content)),
+				};
+			} catch {
+				return undefined;
+			}
+		}),
+	);
+
+	return ignoreFiles.filter((ignoreFile) => ignoreFile !== undefined);
+};
+
+/**
+ * Retrieves a nested value from a JSON value
+ */
+const lookup = (value: JsonValue, path: string): JsonValue | undefined => {
+	let current: JsonValue | undefined = value;
+
+	for (const key of path.split(".")) {
+		if (current === null || typeof current !== "object") {
+			return undefined;
+		}
+
+		current = Array.isArray(current) ? current[Number(key)] : current[key];
+	}
+
+	return current;
+};
+
+const isStringArray = (value: JsonValue | undefined): value is string[] =>
+	Array.isArray(value) && value.every((item) => typeof item === "string");
+
+/**
+ * Matches a path against a list of globs, following the semantics of the
+ * `includes` entries of Biome: globs are evaluated in order, and negated
+ * globs exclude the paths that previous globs included.
+ *
+ * @returns Whether the path is included, and the index of the deciding glob
+ */
+const matchesGlobs = (
+	patterns: string[],
+	path: string,
+): { matched: boolean; index?: number } => {
+	let result: { matched: boolean; index?: number } = { matched: false };
+
+	for (const [index, pattern] of patterns.entries()) {
+		const negated = pattern.startsWith("!");
+
+		if (matchesGlob(pattern.replace(/^!+/, ""), path)) {
+			result = { matched: !negated, index };
+		}
+	}
+
+	return result;
+};
+
+/**
+ * Determines whether any of the globs may match a path inside a directory
+ *
+ * This tells whether it matters that a path is a directory: when no glob may
+ * match its descendants, a directory is excluded just like a file would be.
+ */
+const mayMatchDescendants = (patterns: string[], directory: string): boolean =>
+	patterns
+		.filter((pattern) => !pattern.startsWith("!"))
+		.some((pattern) => createMatcher(pattern).match(directory, true));
+
+/**
+ * Matches a path against a glob
+ *
+ * A glob matching a directory also matches the files it contains.
+ */
+const matchesGlob = (glob: string, path: string): boolean => {
+	const matcher = createMatcher(glob);
+	const segments = path.split("/");
+
+	return segments.some((_, index) =>
+		matcher.match(segments.slice(0, index + 1).join("/")),
+	);
+};
+
+/**
+ * Compiles a glob of the configuration, which is relative to its directory
+ */
+const createMatcher = (glob: string): Minimatch =>
+	new Minimatch(glob.replace(/^\.\//, ""), { dot: true });
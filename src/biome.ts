@@ -1,24 +1,135 @@
-import { chmodSync, copyFileSync } from "node:fs";
+import { basename, dirname } from "node:path";
+import { satisfies, valid, validRange } from "semver";
 import {
+	CancellationError,
+	CancellationTokenSource,
 	type Disposable,
 	type FileSystemWatcher,
+	type Progress,
+	ProgressLocation,
 	RelativePattern,
 	Uri,
 	type WorkspaceFolder,
+	window,
 	workspace,
 } from "vscode";
-import { platformSpecificBinaryName } from "./constants";
+import BinaryProbe from "./binary-probe";
+import { offerBinaryRecovery, offerSupportedVersions } from "./binary-recovery";
+import BiomeConfiguration from "./biome-configuration";
+import { configurationFileNames, lockfiles } from "./constants";
+import {
+	describeBuild,
+	getCargoBinary,
+	isContributorModeEnabled,
+} from "./contributor-mode";
 import type Extension from "./extension";
 import Locator from "./locator";
 import Logger from "./logger";
+import ResolutionReport from "./resolution-report";
 import Session from "./session";
-import type { State } from "./types";
-import { config, debounce, fileExists } from "./utils";
+import type {
+	BuildInfo,
+	LocatorStrategy,
+	StartupOptions,
+	StartupPhase,
+	State,
+	StateTransition,
+} from "./types";
+import {
+	config,
+	debounce,
+	fileExists,
+	findConfigurationFile,
+	getConfigurationPath,
+	hashFile,
+} from "./utils";
 
 type StopOptions = {
 	waitForConfigurationChange?: boolean;
 };
 
+/**
+ * Identifies the binary used by an instance, to tell when it changes
+ */
+type BinaryFingerprint = {
+	/**
+	 * Path of the binary, as returned by the locator
+	 */
+	path: string;
+
+	/**
+	 * Version reported by the binary
+	 */
+	version?: string;
+
+	/**
+	 * SHA-256 hash of the binary
+	 */
+	hash?: string;
+};
+
+/**
+ * A range of Biome versions required by a project
+ */
+type VersionRequirement = {
+	/**
+	 * The semver range, such as `^2.1.0`
+	 */
+	range: string;
+
+	/**
+	 * Where the range was specified, for display purposes
+	 */
+	source: string;
+};
+
+/**
+ * Sections of `package.json` in which the required Biome version is looked
+ * up, in order of precedence
+ */
+const dependencySections = [
+	"devDependencies",
+	"peerDependencies",
+	"dependencies",
+] as const;
+
+/**
+ * Delay before the first restart following a crash, in milliseconds
+ *
+ * The delay doubles with every consecutive crash.
+ */
+const crashRestartDelay = 1000;
+
+/**
+ * How long the language server must run before a crash is no longer
+ * considered consecutive to the previous one, in milliseconds
+ */
+const stableUptime = 60_000;
+
+/**
+ * Delay after which the progress of a startup is shown, in milliseconds
+ */
+const startupProgressDelay = 1000;
+
+/**
+ * Delay to wait for a binary to settle after it changed, in milliseconds
+ *
+ * Package managers and build tools often replace binaries in several steps,
+ * so we wait for them to finish before checking what changed.
+ */
+const binaryChangeDelay = 1000;
+
+/**
+ * Messages describing the phases of the startup
+ */
+const startupPhaseMessages: Record<StartupPhase, string> = {
+	locating: "Locating the Biome binary...",
+	unshimming: "Resolving the real path of the Biome binary...",
+	copying: "Copying the Biome binary to a temporary location...",
+	spawning: "Spawning the language server...",
+	initializing: "Initializing the language server...",
+};
+
 export default class Biome {
 	/**
 	 * Logger for this Biome instance
@@ -26,9 +137,12 @@ export default class Biome {
 	public readonly logger: Logger;
 
 	/**
-	 * State of the Biome instance
+	 * The last state transition of the Biome instance
 	 */
-	private _state: State = "starting";
+	private _transition: StateTransition = {
+		state: "starting",
+		previous: "starting",
+	};
 
 	/**
 	 * LSP session for this Biome instance.
@@ -40,15 +154,91 @@ export default class Biome {
 	 */
 	private _lockfileWatcher: FileSystemWatcher | undefined;
 
+	/**
+	 * The watcher for the binary found by the locator, before it's copied.
+	 */
+	private _binaryWatcher: FileSystemWatcher | undefined;
+
 	/**
 	 * The configuration watcher for this Biome instance.
 	 */
 	private _configWatcher: Disposable | undefined;
 
+	/**
+	 * The watcher for the custom Biome configuration file, if any.
+	 */
+	private _configurationFileWatcher: FileSystemWatcher | undefined;
+
+	/**
+	 * The Biome configuration file in use, if it was specified in the settings.
+	 */
+	private _configurationFile: Uri | undefined;
+
+	/**
+	 * The report of the last lookup of the Biome binary.
+	 */
+	private _resolutionReport: ResolutionReport | undefined;
+
+	/**
+	 * The number of consecutive crashes of the language server.
+	 */
+	private crashCount = 0;
+
+	/**
+	 * The timer of the pending restart following a crash, if any.
+	 */
+	private crashRestartTimer: NodeJS.Timeout | undefined;
+
+	/**
+	 * The time at which the instance last became ready.
+	 */
+	private readyAt: number | undefined;
+
+	/**
+	 * The cancellation of the startup in progress, if any.
+	 */
+	private startupCancellation: CancellationTokenSource | undefined;
+
+	/**
+	 * The startup in progress, if any.
+	 */
+	private pendingStartup: Promise<void> | undefined;
+
+	/**
+	 * The fingerprint of the binary the session was started with.
+	 *
+	 * It's computed in the background, so it doesn't delay the startup.
+	 */
+	private binaryFingerprint: Promise<BinaryFingerprint> | undefined;
+
+	/**
+	 * The pending check for a change of the binary.
+	 *
+	 * Checks run one after the other, so that a burst of changes restarts the
+	 * instance at most once.
+	 */
+	private binaryCheck: Promise<void> = Promise.resolve();
+
+	/**
+	 * Information about the binary in use, when it was built by cargo.
+	 */
+	private _build: BuildInfo | undefined;
+
+	/**
+	 * The copy of the binary this instance runs, or is about to run, when it
+	 * runs from a temporary location.
+	 */
+	private _temporaryBinary: Uri | undefined;
+
 	/**
 	 * The locator responsible for finding the Biome binary to use.
 	 */
-	private readonly locator: Locator;
+	public readonly locator: Locator;
+
+	/**
+	 * The probe used to query the version and real path of Biome binaries.
+	 */
+	public readonly probe: BinaryProbe;
 
 	/**
 	 * LSP session for this Biome instance.
@@ -57,29 +247,76 @@ export default class Biome {
 		return this._session;
 	}
 
+	/**
+	 * The copy of the binary used by this instance, if it runs from a
+	 * temporary location. It's known as soon as the copy is made, before the
+	 * session starts.
+	 */
+	public get temporaryBinary(): Uri | undefined {
+		return this._temporaryBinary;
+	}
+
+	/**
+	 * Whether contributor mode is enabled for this instance.
+	 */
+	public get contributorMode(): boolean {
+		return isContributorModeEnabled(this.workspaceFolder);
+	}
+
+	/**
+	 * Information about the binary in use, when it was built by cargo.
+	 */
+	public get build(): BuildInfo | undefined {
+		return this._build;
+	}
+
+	/**
+	 * The strategy used by the locator to find the Biome binary.
+	 */
+	public get strategy(): LocatorStrategy | undefined {
+		return this._resolutionReport?.binary?.strategy;
+	}
+
+	/**
+	 * The report of the last lookup of the Biome binary.
+	 *
+	 * The report lists every strategy the locator tried, the paths it checked
+	 * and why it failed, which helps understanding why a given binary is used.
+	 */
+	public get resolutionReport(): ResolutionReport | undefined {
+		return this._resolutionReport;
+	}
+
 	/**
 	 * Current state of the Biome instance
 	 */
-	public get state() {
-		return this._state;
+	public get state(): State {
+		return this._transition.state;
+	}
+
+	/**
+	 * The transition that led to the current state
+	 */
+	public get transition(): StateTransition {
+		return this._transition;
 	}
 
 	/**
-	 * Sets the state of the Biome instance
+	 * Human-readable explanation of the current state
 	 *
-	 * This setter will also trigger state change callbacks.
+	 * This is usually set when the instance enters a failure state, to let
+	 * users know what went wrong.
 	 */
-	public set state(value: State) {
-		this._state = value;
-		for (const callback of this.stateChangeCallbacks) {
-			callback(value);
-		}
+	public get reason(): string | undefined {
+		return this._transition.reason;
 	}
 
 	/**
 	 * The state change callbacks
 	 */
-	private stateChangeCallbacks: ((state: State) => void | Promise<void>)[] = [];
+	private stateChangeCallbacks: ((
+		transition: StateTransition,
+	) => void | Promise<void>)[] = [];
 
 	/**
 	 * Indicates whether Biome is enabled for this workspace folder.
@@ -90,6 +327,15 @@ export default class Biome {
 		);
 	}
 
+	/**
+	 * When the instance last became ready, if it's still ready.
+	 */
+	public get readySince(): Date | undefined {
+		return this.state === "ready" && this.readyAt !== undefined
+			? new Date(this.readyAt)
+			: undefined;
+	}
+
 	/**
 	 * The version of Biome currently in use.
 	 */
@@ -97,6 +343,79 @@ export default class Biome {
 		return this._session?.biomeVersion;
 	}
 
+	/**
+	 * The path specified in the `biome.configurationPath` setting, if any.
+	 */
+	public get configurationPath(): Uri | undefined {
+		return getConfigurationPath(this.workspaceFolder, this.root);
+	}
+
+	/**
+	 * Whether this Biome instance should only start once a document is opened.
+	 *
+	 * Lazy startup only applies to workspace folders, since the other instances
+	 * are already created on demand.
+	 */
+	public get startsLazily(): boolean {
+		return (
+			this.workspaceFolder !== undefined &&
+			config("startup.lazy", { scope: this.workspaceFolder, default: false })
+		);
+	}
+
+	/**
+	 * The maximum number of times the language server is restarted after
+	 * consecutive crashes.
+	 */
+	public get maxRestarts(): number {
+		return config("lsp.maxRestarts", {
+			scope: this.workspaceFolder,
+			default: 5,
+		});
+	}
+
+	/**
+	 * Whether a Biome configuration file is required to start the session.
+	 */
+	public get requiresConfiguration(): boolean {
+		return config("requireConfiguration", {
+			scope: this.workspaceFolder,
+			default: false,
+		});
+	}
+
+	/**
+	 * The root directory in which this Biome instance looks for files.
+	 */
+	public get root(): Uri | undefined {
+		return this.workspaceFolder?.uri ?? this.singleFileFolder;
+	}
+
+	/**
+	 * The Biome binary pinned by the user for this instance, if any.
+	 */
+	public get pinnedBinary(): Uri | undefined {
+		const path = this.extension.context.workspaceState.get<string>(
+			this.pinnedBinaryKey,
+		);
+
+		return path ? Uri.file(path) : undefined;
+	}
+
+	/**
+	 * The key under which the pinned binary is stored in the workspace state
+	 */
+	private get pinnedBinaryKey(): string {
+		return `pinnedBinary:${this.root?.toString() ?? this.name}`;
+	}
+
+	/**
+	 * The Biome configuration file resolved from `biome.configurationPath`.
+	 */
+	public get configurationFile(): Uri | undefined {
+		return this._configurationFile;
+	}
+
 	/**
 	 * Whether this Biome instance is global
 	 */
@@ -119,20 +438,6 @@ export default class Biome {
 		return this.workspaceFolder?.name ?? "unknown";
 	}
 
-	/**
-	 * The path to a temporary directory for this Biome instance
-	 */
-	private get tempDirectory(): Uri | undefined {
-		if (!this.extension.context.storageUri || !this.workspaceFolder) {
-			return undefined;
-		}
-
-		return Uri.joinPath(
-			this.extension.context.storageUri,
-			this.workspaceFolder.name,
-		);
-	}
-
 	/**
 	 * Creates a new Biome instance
 	 *
@@ -145,6 +450,12 @@ export default class Biome {
 	) {
 		this.logger = new Logger(`Biome (${this.name})`);
 		this.locator = new Locator(this);
+		// Run the binaries from the project root in case the user's local
+		// development environment depends on this, such as when using `asdf`.
+		this.probe = new BinaryProbe(
+			extension.context.globalState,
+			workspaceFolder?.uri.fsPath,
+		);
 	}
 
 	/**
@@ -189,28 +500,145 @@ export default class Biome {
 	 * Starts the Biome instance.
 	 */
 	public async start() {
-		if (this._session && this.state !== "error") {
+		// The instance is already on its way up. The initial state is also
+		// "starting", which is why the startup in progress is checked instead.
+		if (this.pendingStartup || this.state === "restarting") {
+			this.logger.debug(`Biome is already ${this.state}, not starting again.`);
+			return;
+		}
+
+		await this.trackStartup();
+	}
+
+	/**
+	 * Runs the startup of the instance, keeping track of it so that it can be
+	 * cancelled and awaited when the instance is stopped or restarted.
+	 */
+	private async trackStartup(): Promise<void> {
+		const cancellation = new CancellationTokenSource();
+		const startup = this.runStartup(cancellation);
+
+		this.startupCancellation = cancellation;
+		this.pendingStartup = startup;
+
+		try {
+			await startup;
+		} catch (error) {
+			// An unexpected error must not leave the instance reported as starting
+			this.logger.error(`Failed to start Biome: ${error}`);
+			this.transitionTo("error", {
+				reason: "Failed to start Biome.",
+				error,
+			});
+		} finally {
+			if (this.pendingStartup === startup) {
+				this.startupCancellation = undefined;
+				this.pendingStartup = undefined;
+			}
+
+			cancellation.dispose();
+		}
+	}
+
+	/**
+	 * Cancels the startup in progress, if any, and waits for it to settle.
+	 */
+	private async cancelPendingStartup(): Promise<void> {
+		this.startupCancellation?.cancel();
+		await this.pendingStartup?.catch(() => undefined);
+	}
+
+	/**
+	 * Resolves the configuration and launches the LSP session.
+	 */
+	private async runStartup(cancellation: CancellationTokenSource) {
+		if (this._session && this.state !== "error" && this.state !== "crashed") {
 			return; // Avoid starting the same session multiple times.
 		}
 
 		this.listenForLockfilesChanges();
 		this.listenForConfigChanges();
+		this.listenForConfigurationFileChanges();
 
 		if (!this.enabled) {
 			this.logger.info("Biome is disabled.");
-			this.state = "disabled";
+			this.transitionTo("disabled");
+			return;
+		}
+
+		this.transitionTo("starting");
+
+		const configurationFile = await this.resolveConfigurationFile();
+
+		// The instance was stopped or restarted meanwhile
+		if (cancellation.token.isCancellationRequested) {
+			return;
+		}
+
+		if (this.requiresConfiguration && !configurationFile) {
+			this.logger.info(
+				"⚙️ Biome requires a configuration file, but none was found. Waiting for one to be created.",
+			);
+			this.transitionTo("no-configuration");
+			return;
+		}
+
+		const configurationPath = this.configurationPath;
+
+		if (configurationPath && !configurationFile) {
+			this.logger.error(
+				`⚙️ The configuration file specified in "biome.configurationPath" could not be found at "${configurationPath.fsPath}".`,
+			);
+			this.transitionTo("error", {
+				reason: `The Biome configuration file could not be found at "${configurationPath.fsPath}".`,
+			});
 			return;
 		}
 
-		this.state = "starting";
-		const binary = await this.getBinary();
+		await this.withStartupProgress(cancellation, (options) =>
+			this.launch(options),
+		);
+	}
+
+	/**
+	 * Locates the Biome binary and starts the LSP session.
+	 */
+	private async launch(options: StartupOptions): Promise<void> {
+		const binary = await this.getBinary(options);
+
+		if (options.token?.isCancellationRequested) {
+			await this.cancelStartup();
+			return;
+		}
 
 		if (!binary) {
 			this.logger.error("Unable to find the Biome binary.");
-			this.state = "error";
+			this.transitionTo("binary-not-found", {
+				reason: "Unable to find the Biome binary.",
+			});
+			void offerBinaryRecovery(this);
+			return;
+		}
+
+		if (!(await this.checkRequiredVersion(options))) {
+			return;
+		}
+
+		if (options.token?.isCancellationRequested) {
+			await this.cancelStartup();
 			return;
 		}
 
+		const located = this._resolutionReport?.binary?.uri;
+		this.binaryFingerprint = located
+			? this.fingerprintBinary(located)
+			: undefined;
+
+		this._build =
+			located && this.strategy === "contributor"
+				? await describeBuild(located)
+				: undefined;
+
 		// Create the session
 		// We pass all parameters, and the session will determine which one to use
 		// based on the presence of the workspace folder and single file folder.
@@ -222,65 +650,471 @@ export default class Biome {
 		);
 
 		try {
-			await this._session?.start();
+			await this._session.start(options);
+
+			// The startup may have been cancelled right as it completed
+			if (options.token?.isCancellationRequested) {
+				throw new CancellationError();
+			}
+
 			this.logger.info("✅ Biome is ready.");
-			this.state = "ready";
-		} catch (_error) {
-			this.state = "error";
-			this.logger.error("Failed to start the session");
-			await this.stop();
+			this.readyAt = Date.now();
+			this.transitionTo("ready");
+
+			// In contributor mode, the cargo binary is watched even when another
+			// binary is in use, so the instance switches to it once it's built.
+			const watched = this.contributorMode
+				? (getCargoBinary(this.workspaceFolder) ?? located)
+				: located;
+
+			if (watched) {
+				this.listenForBinaryChanges(watched);
+			}
+		} catch (error) {
+			if (options.token?.isCancellationRequested) {
+				await this.cancelStartup();
+				return;
+			}
+
+			this.logger.error(`Failed to start the session: ${error}`);
+
+			try {
+				await this.shutdown();
+			} finally {
+				this.transitionTo("error", {
+					reason: "Failed to start the Biome language server.",
+					error,
+				});
+			}
 		}
 	}
 
 	/**
-	 * Stops the Biome instance.
+	 * Checks that the located binary satisfies the required version range
+	 *
+	 * When it doesn't, the instance transitions to the `unsupported-version`
+	 * state, and the user is offered the binaries that satisfy the range.
+	 *
+	 * @returns Whether the startup may proceed
 	 */
-	public async stop({ waitForConfigurationChange = false }: StopOptions = {}) {
-		if (waitForConfigurationChange) {
-			// If we end up here following a configuration change, we need to wait
-			// for the notification to be processed before we can stop the LSP session,
-			// otherwise we will get an error. This is a workaround for a race condition
-			// that occurs when the configuration change notification is sent while the
-			// LSP session is already stopped.
-			await new Promise((resolve) => setTimeout(resolve, 1000));
+	private async checkRequiredVersion(
+		options: StartupOptions,
+	): Promise<boolean> {
+		const requirement = await this.resolveRequiredVersion();
+		const binary = this._resolutionReport?.binary?.uri;
+
+		if (!requirement || !binary) {
+			return true;
 		}
 
-		await this._session?.stop();
+		const version = await this.probe.version(binary, options.token);
+
+		// Development builds report 0.0.0 and are always allowed
+		if (!version || version === "0.0.0") {
+			return true;
+		}
 
-		await this.cleanup();
+		// Versions that can't be parsed are given the benefit of the doubt
+		if (!valid(version) || satisfies(version, requirement.range)) {
+			return true;
+		}
 
-		this._session = undefined;
-	}
+		const reason = `Biome ${version} at "${binary.fsPath}" doesn't satisfy the required version "${requirement.range}" (from ${requirement.source}).`;
 
-	/**
-	 * Restarts the Biome instance.
-	 */
-	public async restart(options: StopOptions = {}) {
-		this.logger.info("🔄 Restarting Biome...");
-		Session.clearCache();
-		await this.stop(options);
-		await this.start();
+		this.logger.error(`🚫 ${reason}`);
+		this.transitionTo("unsupported-version", { reason });
+		void offerSupportedVersions(this, requirement.range, reason);
+
+		return false;
 	}
 
 	/**
-	 * Retrieves the path to the Biome binary
+	 * Resolves the range of Biome versions required for this instance
 	 *
-	 * This method uses the locator to find the Biome binary on the system, and
-	 * if necessary copies it to a temporary location from where it will be executed
-	 * to prevent locking the original binary.
+	 * The range comes from the `biome.requiredVersion` setting or, when it's
+	 * not set, from the `@biomejs/biome` dependency in the `package.json` file
+	 * at the root of the instance. Ranges that can't be parsed, such as
+	 * `workspace:*`, are ignored.
 	 */
-	protected async getBinary(): Promise<Uri | undefined> {
-		const binary = this.isGlobal
-			? await this.locator.findBiomeForGlobalInstance()
-			: await this.locator.findBiomeForWorkspaceFolder();
+	public async resolveRequiredVersion(): Promise<
+		VersionRequirement | undefined
+	> {
+		const setting = config<string>("requiredVersion", {
+			scope: this.workspaceFolder,
+			default: "",
+		}).trim();
 
-		if (!binary) {
+		if (setting) {
+			if (validRange(setting)) {
+				return { range: setting, source: "biome.requiredVersion" };
+			}
+
+			this.logger.warn(
+				`⚠️ Ignoring the invalid version range "${setting}" in "biome.requiredVersion".`,
+			);
 			return undefined;
 		}
 
-		return this.shouldRunFromTemporaryLocation()
-			? await this.copyToTemporaryLocation(binary)
-			: binary;
+		if (!this.root) {
+			return undefined;
+		}
+
+		const packageJson = Uri.joinPath(this.root, "package.json");
+
+		try {
+			const manifest = JSON.parse(
+				new TextDecoder().decode(await workspace.fs.readFile(packageJson)),
+			);
+
+			for (const section of dependencySections) {
+				const range = manifest?.[section]?.["@biomejs/biome"];
+
+				if (typeof range === "string" && validRange(range)) {
+					return { range, source: `${section} in package.json` };
+				}
+			}
+		} catch {
+			// The package.json file is missing or invalid
+		}
+
+		return undefined;
+	}
+
+	/**
+	 * Runs the startup of the instance while reporting its progress
+	 *
+	 * Most startups complete quickly, so the progress notification only shows
+	 * up once the startup takes a while. It lets users cancel a slow or stuck
+	 * startup.
+	 */
+	private async withStartupProgress(
+		cancellation: CancellationTokenSource,
+		task: (options: StartupOptions) => Promise<void>,
+	): Promise<void> {
+		let phase: StartupPhase | undefined;
+		let progress: Progress<{ message?: string }> | undefined;
+
+		const onPhase = (next: StartupPhase) => {
+			phase = next;
+			this.logger.debug(`⏳ ${startupPhaseMessages[next]}`);
+			progress?.report({ message: startupPhaseMessages[next] });
+		};
+
+		const startup = task({ token: cancellation.token, onPhase });
+
+		const timer = setTimeout(() => {
+			window.withProgress(
+				{
+					location: ProgressLocation.Notification,
+					title: `Starting Biome (${this.name})`,
+					cancellable: true,
+				},
+				(reporter, token) => {
+					progress = reporter;
+
+					if (phase) {
+						reporter.report({ message: startupPhaseMessages[phase] });
+					}
+
+					token.onCancellationRequested(() => cancellation.cancel());
+
+					return startup.catch(() => undefined);
+				},
+			);
+		}, startupProgressDelay);
+
+		try {
+			await startup;
+		} finally {
+			clearTimeout(timer);
+		}
+	}
+
+	/**
+	 * Cleans up after a cancelled startup, leaving the instance stopped.
+	 */
+	private async cancelStartup(): Promise<void> {
+		this.logger.info("⏹️ Biome startup was cancelled.");
+
+		try {
+			await this.shutdown();
+		} finally {
+			this.transitionTo("stopped", { reason: "The startup was cancelled." });
+		}
+	}
+
+	/**
+	 * Defers starting the Biome instance.
+	 *
+	 * The instance stays idle until it's started, which usually happens once a
+	 * supported document from its workspace folder is opened.
+	 */
+	public deferStart() {
+		this.logger.info("💤 Biome will start once a supported file is opened.");
+		this.transitionTo("idle");
+	}
+
+	/**
+	 * Stops the Biome instance.
+	 */
+	public async stop(options: StopOptions = {}) {
+		await this.cancelPendingStartup();
+
+		try {
+			await this.shutdown(options);
+		} finally {
+			this.transitionTo("stopped");
+		}
+	}
+
+	/**
+	 * Stops the LSP session and releases the resources of the instance,
+	 * without reporting the instance as stopped.
+	 */
+	private async shutdown({
+		waitForConfigurationChange = false,
+	}: StopOptions = {}) {
+		if (waitForConfigurationChange) {
+			// If we end up here following a configuration change, we need to wait
+			// for the notification to be processed before we can stop the LSP session,
+			// otherwise we will get an error. This is a workaround for a race condition
+			// that occurs when the configuration change notification is sent while the
+			// LSP session is already stopped.
+			await new Promise((resolve) => setTimeout(resolve, 1000));
+		}
+
+		// A startup in progress would otherwise go on and replace the session
+		this.startupCancellation?.cancel();
+
+		clearTimeout(this.crashRestartTimer);
+		this.crashRestartTimer = undefined;
+		this.crashCount = 0;
+
+		// A failed teardown must not leave the instance holding on to a session
+		// and watchers, otherwise it could never be started again.
+		try {
+			await this._session?.stop();
+		} finally {
+			this._session = undefined;
+			await this.cleanup();
+		}
+	}
+
+	/**
+	 * Restarts the Biome instance.
+	 */
+	public async restart(options: StopOptions = {}) {
+		this.logger.info("🔄 Restarting Biome...");
+
+		// Starting again while the previous startup is still running would leave
+		// two sessions behind, so the previous startup has to wind down first.
+		await this.cancelPendingStartup();
+
+		this.transitionTo("restarting");
+		Locator.clearCache();
+		await this.shutdown(options);
+		await this.trackStartup();
+	}
+
+	/**
+	 * Handles an unexpected exit of the language server.
+	 *
+	 * The instance enters the "crashed" state and the language server is
+	 * restarted with an exponential backoff, until the maximum number of
+	 * restarts is reached, at which point users are notified.
+	 *
+	 * @param reason A description of how the language server exited
+	 * @param stderr The last lines written by the language server to stderr
+	 */
+	public handleCrash(reason: string, stderr: string[]): void {
+		if (
+			this.readyAt !== undefined &&
+			Date.now() - this.readyAt > stableUptime
+		) {
+			this.crashCount = 0;
+		}
+
+		this.readyAt = undefined;
+
+		this.logger.error(`💥 ${reason}`);
+
+		if (stderr.length > 0) {
+			this.logger.error(
+				`💥 Last lines written by the language server:\n${stderr.join("\n")}`,
+			);
+		}
+
+		this.transitionTo("crashed", { reason });
+
+		const maxRestarts = this.maxRestarts;
+
+		if (this.crashCount >= maxRestarts) {
+			this.logger.error(
+				`💥 Giving up after ${this.crashCount} restart attempts.`,
+			);
+
+			window
+				.showErrorMessage(
+					`Biome (${this.name}) crashed and could not be restarted.`,
+					"Show logs",
+				)
+				.then((action) => {
+					if (action === "Show logs") {
+						this.logger.show();
+					}
+				});
+
+			return;
+		}
+
+		const delay = crashRestartDelay * 2 ** this.crashCount;
+		this.crashCount++;
+
+		this.logger.info(
+			`🔄 Restarting Biome in ${delay / 1000}s (attempt ${this.crashCount} of ${maxRestarts}).`,
+		);
+
+		this.crashRestartTimer = setTimeout(() => {
+			this.crashRestartTimer = undefined;
+			this.recover();
+		}, delay);
+	}
+
+	/**
+	 * Restarts the language server following a crash.
+	 *
+	 * Unlike a regular restart, this keeps the count of consecutive crashes so
+	 * the backoff keeps growing if the language server crashes again.
+	 */
+	private async recover(): Promise<void> {
+		this.transitionTo("restarting");
+		await this._session?.stop();
+		this._session = undefined;
+		await this.trackStartup();
+	}
+
+	/**
+	 * Resolves the Biome configuration file
+	 *
+	 * When the `biome.configurationPath` setting is specified, this method
+	 * resolves it against the root of the instance and ensures that the file
+	 * it points to exists, either directly or inside the specified directory.
+	 * Relative paths are ignored by instances without a root.
+	 *
+	 * Otherwise, it looks for one of the default configuration files at the
+	 * root of the workspace folder.
+	 *
+	 * @returns The configuration file, if one was found
+	 */
+	protected async resolveConfigurationFile(): Promise<Uri | undefined> {
+		this._configurationFile = undefined;
+
+		const configurationPath = this.configurationPath;
+
+		if (!configurationPath) {
+			if (
+				config<string | null>("configurationPath", {
+					scope: this.workspaceFolder,
+				})
+			) {
+				this.logger.warn(
+					'⚙️ The relative path in "biome.configurationPath" is ignored, since this instance has no root to resolve it against.',
+				);
+			}
+
+			return this.root ? await findConfigurationFile(this.root) : undefined;
+		}
+
+		const configurationFile = await findConfigurationFile(configurationPath);
+
+		if (configurationFile) {
+			this.logger.info(
+				`⚙️ Using the configuration file at "${configurationFile.fsPath}".`,
+			);
+			this._configurationFile = configurationFile;
+		}
+
+		return configurationFile;
+	}
+
+	/**
+	 * Locates the Biome configuration file used by this instance
+	 *
+	 * This is either the file specified in `biome.configurationPath`, or one
+	 * of the default configuration files at the root of the instance.
+	 */
+	public async locateConfigurationFile(): Promise<Uri | undefined> {
+		if (this._configurationFile) {
+			return this._configurationFile;
+		}
+
+		return this.root ? await findConfigurationFile(this.root) : undefined;
+	}
+
+	/**
+	 * Loads the Biome configuration used by this instance, if any
+	 */
+	public async loadConfiguration(): Promise<BiomeConfiguration | undefined> {
+		const configurationFile = await this.locateConfigurationFile();
+
+		return configurationFile
+			? await BiomeConfiguration.load(configurationFile)
+			: undefined;
+	}
+
+	/**
+	 * Pins a Biome binary for this instance
+	 *
+	 * The pinned binary takes precedence over every other locator strategy. The
+	 * Biome instance is restarted so it uses the newly pinned binary.
+	 *
+	 * @param binary The binary to pin, or `undefined` to unpin the current one
+	 */
+	public async pinBinary(binary: Uri | undefined): Promise<void> {
+		await this.extension.context.workspaceState.update(
+			this.pinnedBinaryKey,
+			binary?.fsPath,
+		);
+
+		this.logger.info(
+			binary
+				? `📌 Pinned Biome binary "${binary.fsPath}".`
+				: "📌 Unpinned Biome binary.",
+		);
+
+		await this.restart();
+	}
+
+	/**
+	 * Retrieves the path to the Biome binary
+	 *
+	 * This method uses the locator to find the Biome binary on the system, and
+	 * if necessary copies it to a temporary location from where it will be executed
+	 * to prevent locking the original binary.
+	 */
+	protected async getBinary(
+		options: StartupOptions = {},
+	): Promise<Uri | undefined> {
+		const report = new ResolutionReport();
+		this._resolutionReport = report;
+
+		const binary = this.isGlobal
+			? await this.locator.findBiomeForGlobalInstance(report, options)
+			: await this.locator.findBiomeForWorkspaceFolder(report, options);
+
+		this.logger.debug(`🔍 Binary resolution:\n${report.summarize()}`);
+
+		if (!binary || options.token?.isCancellationRequested) {
+			return undefined;
+		}
+
+		if (!this.shouldRunFromTemporaryLocation()) {
+			return binary.uri;
+		}
+
+		options.onPhase?.("copying");
+
+		return await this.copyToTemporaryLocation(binary.uri);
 	}
 
 	/**
@@ -322,76 +1156,33 @@ export default class Biome {
 	/**
 	 * Copies the original Biome binary to a temporary location.
 	 *
-	 * This method copies the original binary to a temporary location and
-	 * returns the URI to the copied binary. It also ensures that the copied
-	 * binary is executable.
+	 * The copy is stored in the binary cache, where it's shared with the other
+	 * instances and reused across restarts as long as the original binary
+	 * doesn't change.
 	 */
 	protected async copyToTemporaryLocation(
 		originalBinary: Uri,
 	): Promise<Uri | undefined> {
-		try {
-			const tempDirectory = this.tempDirectory;
-
-			this.logger.debug(
-				`Temporary directory for Biome: ${tempDirectory?.fsPath}`,
-			);
-
-			if (!tempDirectory) {
-				return;
-			}
+		const cache = this.extension.binaryCache;
 
-			await workspace.fs.createDirectory(tempDirectory);
-
-			this.logger.debug(
-				`Ensured temporary directory exists: ${tempDirectory.fsPath}`,
-			);
-
-			const destination = Uri.joinPath(
-				tempDirectory,
-				platformSpecificBinaryName,
+		if (!cache) {
+			this.logger.error(
+				"Cannot copy the Biome binary to a temporary location without a workspace storage.",
 			);
+			return undefined;
+		}
 
-			this.logger.debug(
-				`Will copy the original binary at ${originalBinary.fsPath} to ${destination.fsPath}`,
+		try {
+			this._temporaryBinary = await cache.store(
+				originalBinary,
+				await this.probe.version(originalBinary),
 			);
 
-			try {
-				copyFileSync(originalBinary.fsPath, destination.fsPath);
-
-				this.logger.debug(
-					`Copied the original binary to a temporary location: ${destination.fsPath}`,
-				);
-
-				chmodSync(destination.fsPath, 0o755);
-			} catch (copyError) {
-				// On Windows, the destination binary may be locked (EBUSY/EPERM) by
-				// a Biome process from a previous session that is still running (for
-				// example after a window reload). Overwriting a running executable is
-				// not allowed, but a locked destination means a valid copy already
-				// exists there, and Windows still allows spawning new processes from
-				// it. So instead of failing — which surfaces to the user as "Unable
-				// to find the Biome binary" — reuse the existing copy.
-				const code = (copyError as NodeJS.ErrnoException).code;
-
-				if (
-					(code === "EBUSY" || code === "EPERM") &&
-					(await fileExists(destination))
-				) {
-					this.logger.warn(
-						`Could not refresh the temporary Biome binary (${code}: locked by a running instance). Reusing the existing copy at ${destination.fsPath}.`,
-					);
-					return destination;
-				}
-
-				throw copyError;
-			}
-
-			return destination;
+			return this._temporaryBinary;
 		} catch (error) {
 			this.logger.error(
 				`Failed to copy the Biome binary to a temporary location: ${error}`,
 			);
-			await this.cleanup();
 			return undefined;
 		}
 	}
@@ -401,7 +1192,7 @@ export default class Biome {
 	 *
 	 * This method will register a listener for changes to common lockfiles in the
 	 * workspace folder. This is useful for reloading the Biome instance when
-	 * dependencies are updated.
+	 * Biome itself is updated along with the other dependencies.
 	 */
 	protected listenForLockfilesChanges() {
 		// If we're a global instance, we don't have a workspace folder to watch
@@ -417,36 +1208,235 @@ export default class Biome {
 		this._lockfileWatcher = workspace.createFileSystemWatcher(
 			new RelativePattern(
 				this.workspaceFolder,
-				"{package-lock.json,yarn.lock,bun.lockb,bun.lock,pnpm-lock.yaml}",
+				`{${Object.keys(lockfiles).join(",")}}`,
 			),
 		);
 
-		this._lockfileWatcher.onDidChange(
-			debounce((event) => {
-				this.logger.info(`🔒 Lockfile "${event.fsPath}" changed.`);
-				this.restart();
+		// Installing dependencies usually touches several lockfiles at once, so
+		// every kind of change goes through the same debounced handler.
+		const onChange = debounce((event: Uri) => {
+			this.logger.info(`🔒 Lockfile "${event.fsPath}" changed.`);
+			this.queueBinaryCheck(() => this.restartIfBinaryChanged());
+		});
+
+		this._lockfileWatcher.onDidChange(onChange);
+		this._lockfileWatcher.onDidCreate(onChange);
+		this._lockfileWatcher.onDidDelete(onChange);
+
+		this.logger.info("🔒 Started listening for lockfile changes.");
+
+		// Register the watcher in the extension context's subscriptions
+		// to ensure it is disposed of when the extension is deactivated.
+		this.extension.context.subscriptions.push(this._lockfileWatcher);
+	}
+
+	/**
+	 * Restarts the instance if the binary it would use has changed
+	 *
+	 * Lockfiles change whenever any dependency is installed or updated, which
+	 * rarely concerns Biome. The locator is ran again, and the session is only
+	 * restarted when the binary it finds differs from the one in use by its
+	 * path, version or contents.
+	 */
+	private async restartIfBinaryChanged(): Promise<void> {
+		// The instance is already on its way to start again, and restarting it
+		// now would race with the ongoing startup.
+		if (
+			this.state === "starting" ||
+			this.state === "restarting" ||
+			this.state === "crashed"
+		) {
+			this.logger.debug(
+				`🔒 Ignoring the lockfile change while the instance is ${this.state}.`,
+			);
+			return;
+		}
+
+		const previous = await this.binaryFingerprint;
+
+		// Without a running session, there's nothing to compare against, and
+		// the change may be what the instance was waiting for.
+		if (this.state !== "ready" || !previous) {
+			await this.restart();
+			return;
+		}
+
+		Locator.clearCache();
+
+		const located = await this.locator.findBiomeForWorkspaceFolder(
+			new ResolutionReport(),
+		);
+		const current = located
+			? await this.fingerprintBinary(located.uri)
+			: undefined;
+
+		const change = describeBinaryChange(previous, current);
+
+		if (!change) {
+			this.logger.info("🔒 The Biome binary didn't change, not restarting.");
+			return;
+		}
+
+		this.logger.info(`🔒 ${change}`);
+		await this.restart();
+	}
+
+	/**
+	 * Listens for changes to the binary found by the locator
+	 *
+	 * The original binary is watched rather than its temporary copy, so that
+	 * updating a global installation or rebuilding a local binary restarts
+	 * the session with the new binary.
+	 */
+	private listenForBinaryChanges(binary: Uri) {
+		this._binaryWatcher?.dispose();
+
+		this._binaryWatcher = workspace.createFileSystemWatcher(
+			new RelativePattern(
+				Uri.file(dirname(binary.fsPath)),
+				basename(binary.fsPath),
+			),
+		);
+
+		const onChange = debounce(
+			() => this.queueBinaryCheck(() => this.restartIfBinaryReplaced(binary)),
+			binaryChangeDelay,
+		);
+
+		this._binaryWatcher.onDidChange(onChange);
+		this._binaryWatcher.onDidCreate(onChange);
+		this._binaryWatcher.onDidDelete(onChange);
+
+		this.logger.debug(
+			`👀 Started listening for changes to the Biome binary at "${binary.fsPath}".`,
+		);
+	}
+
+	/**
+	 * Restarts the instance if the binary it was started with was replaced
+	 */
+	private async restartIfBinaryReplaced(binary: Uri): Promise<void> {
+		const previous = await this.binaryFingerprint;
+
+		if (this.state !== "ready" || !previous) {
+			return;
+		}
+
+		const current = (await fileExists(binary))
+			? await this.fingerprintBinary(binary)
+			: undefined;
+
+		const change = describeBinaryChange(previous, current);
+
+		if (!change) {
+			return;
+		}
+
+		this.logger.info(`👀 ${change}`);
+		await this.restart();
+	}
+
+	/**
+	 * Runs a check for a change of the binary once the pending one completes
+	 */
+	private queueBinaryCheck(check: () => Promise<void>): void {
+		this.binaryCheck = this.binaryCheck.then(check).catch((error) => {
+			this.logger.error(`Failed to check whether the binary changed: ${error}`);
+		});
+	}
+
+	/**
+	 * Computes the fingerprint of a binary
+	 */
+	private async fingerprintBinary(binary: Uri): Promise<BinaryFingerprint> {
+		return {
+			path: binary.fsPath,
+			version: await this.probe.version(binary),
+			hash: await hashFile(binary.fsPath),
+		};
+	}
+
+	/**
+	 * Listens for changes to the Biome configuration file
+	 *
+	 * This method will register a listener for the path specified in the
+	 * `biome.configurationPath` setting. Since the setting may point to either
+	 * a file or a directory, both are watched. When the setting is not
+	 * specified but a configuration file is required, the default
+	 * configuration files at the root of the workspace folder are watched.
+	 *
+	 * When the configuration file is created or deleted, the Biome instance is
+	 * restarted so it can pick it up or report it missing. When it is modified,
+	 * the LSP session is notified so it can reload the configuration.
+	 */
+	protected listenForConfigurationFileChanges() {
+		if (this._configurationFileWatcher) {
+			return;
+		}
+
+		const pattern = this.createConfigurationFilePattern();
+
+		if (!pattern) {
+			return;
+		}
+
+		this._configurationFileWatcher = workspace.createFileSystemWatcher(pattern);
+
+		this._configurationFileWatcher.onDidChange(
+			debounce(async (event) => {
+				this.logger.info(`⚙️ Configuration file "${event.fsPath}" changed.`);
+				await this._session?.notifyConfigurationChange();
 			}),
 		);
 
-		this._lockfileWatcher.onDidCreate(
+		this._configurationFileWatcher.onDidCreate(
 			debounce((event) => {
-				this.logger.info(`🔒 Lockfile "${event.fsPath}" created.`);
+				this.logger.info(`⚙️ Configuration file "${event.fsPath}" created.`);
 				this.restart();
 			}),
 		);
 
-		this._lockfileWatcher.onDidDelete(
+		this._configurationFileWatcher.onDidDelete(
 			debounce((event) => {
-				this.logger.info(`🔒 Lockfile "${event.fsPath}" deleted.`);
+				this.logger.info(`⚙️ Configuration file "${event.fsPath}" deleted.`);
 				this.restart();
 			}),
 		);
 
-		this.logger.info("🔒 Started listening for lockfile changes.");
+		this.logger.info(
+			"⚙️ Started listening for changes to the configuration file.",
+		);
 
-		// Register the watcher in the extension context's subscriptions
-		// to ensure it is disposed of when the extension is deactivated.
-		this.extension.context.subscriptions.push(this._lockfileWatcher);
+		this.extension.context.subscriptions.push(this._configurationFileWatcher);
+	}
+
+	/**
+	 * Creates the glob pattern matching the configuration file to watch
+	 */
+	private createConfigurationFilePattern(): RelativePattern | undefined {
+		const configurationPath = this.configurationPath;
+
+		if (configurationPath) {
+			const name = basename(configurationPath.fsPath);
+			const candidates = [
+				name,
+				...configurationFileNames.map((file) => `${name}/${file}`),
+			];
+
+			return new RelativePattern(
+				Uri.file(dirname(configurationPath.fsPath)),
+				`{${candidates.join(",")}}`,
+			);
+		}
+
+		if (this.requiresConfiguration && this.root) {
+			return new RelativePattern(
+				this.root,
+				`{${configurationFileNames.join(",")}}`,
+			);
+		}
+
+		return undefined;
 	}
 
 	protected listenForConfigChanges() {
@@ -465,7 +1455,7 @@ export default class Biome {
 	}
 
 	/**
-	 * Cleans up the temporary directory.
+	 * Disposes of the watchers of the instance.
 	 */
 	protected async cleanup(): Promise<void> {
 		// Dispose of the config watcher
@@ -476,29 +1466,76 @@ export default class Biome {
 		this._lockfileWatcher?.dispose();
 		this._lockfileWatcher = undefined;
 
-		// Nothing to cleanup if we're a global instance
-		if (this.isGlobal) {
-			return;
-		}
-
-		if (!this.tempDirectory || !this.shouldRunFromTemporaryLocation()) {
-			return;
-		}
+		// Dispose of the configuration file watcher
+		this._configurationFileWatcher?.dispose();
+		this._configurationFileWatcher = undefined;
 
-		this.logger.debug("🧹 Cleaning up temporary directory.");
+		// Dispose of the binary watcher
+		this._binaryWatcher?.dispose();
+		this._binaryWatcher = undefined;
+	}
 
-		await workspace.fs.delete(this.tempDirectory, {
-			recursive: true,
-			useTrash: false,
-		});
+	/**
+	 * Transitions the Biome instance to a new state
+	 *
+	 * This will also trigger state change callbacks with the transition.
+	 */
+	private transitionTo(
+		state: State,
+		details: Pick<StateTransition, "reason" | "error"> = {},
+	): void {
+		const transition: StateTransition = {
+			state,
+			previous: this._transition.state,
+			...details,
+		};
+
+		this._transition = transition;
+
+		this.logger.debug(
+			`State changed from "${transition.previous}" to "${transition.state}".`,
+		);
 
-		this.logger.debug("🧹 Temporary directory has been cleaned up.");
+		for (const callback of this.stateChangeCallbacks) {
+			callback(transition);
+		}
 	}
 
 	/**
 	 * Registers a callback to be called when the state of the Biome instance changes.
 	 */
-	public onStateChange(callback: (state: State) => void | Promise<void>): void {
+	public onStateChange(
+		callback: (transition: StateTransition) => void | Promise<void>,
+	): void {
 		this.stateChangeCallbacks.push(callback);
 	}
 }
+
+/**
+ * Describes how a binary changed between two fingerprints
+ *
+ * @returns A description of the change, or `undefined` if the binary didn't
+ * change
+ */
+const describeBinaryChange = (
+	previous: BinaryFingerprint,
+	current: BinaryFingerprint | undefined,
+): string | undefined => {
+	if (!current) {
+		return `The Biome binary at "${previous.path}" can no longer be found.`;
+	}
+
+	if (current.path !== previous.path) {
+		return `The Biome binary moved from "${previous.path}" to "${current.path}".`;
+	}
+
+	if (current.version !== previous.version) {
+		return `Biome changed from version ${previous.version ?? "unknown"} to ${current.version ?? "unknown"}.`;
+	}
+
+	if (current.hash !== previous.hash) {
+		return `The Biome binary at "${current.path}" was modified.`;
+	}
+
+	return undefined;
+};
@@ -0,0 +1,197 @@
+import { coerce, gte, type SemVer } from "semver";
+import type { InitializeResult } from "vscode-languageclient/node";
+
+/**
+ * Minimum version of Biome supporting each capability that can only be
+ * inferred from the version of the binary
+ */
+const minimumVersions = {
+	/**
+	 * The `__where_am_i` command, used to resolve shims
+	 */
+	whereAmI: "2.0.0",
+
+	/**
+	 * The `--watcher-kind` and `--watcher-polling-interval` flags of the
+	 * `lsp-proxy` command
+	 */
+	watcherFlags: "2.4.0",
+} satisfies Record<string, string>;
+
+/**
+ * Capability of a Biome binary that depends on its version
+ */
+export type VersionedCapability = keyof typeof minimumVersions;
+
+/**
+ * Capability advertised by the language server when it initializes
+ */
+export type ServerCapability =
+	/**
+	 * The `biome_lsp/syntaxTree` custom request, only understood by servers
+	 * identifying as `biome_lsp`
+	 */
+	| "syntaxTree"
+
+	/**
+	 * The `source.fixAll.biome` code action
+	 */
+	| "fixAll"
+
+	/**
+	 * The `source.organizeImports.biome` code action
+	 */
+	| "organizeImports";
+
+/**
+ * Capability of a Biome binary
+ */
+export type Capability = VersionedCapability | ServerCapability;
+
+/**
+ * Determines whether a string names a capability inferred from the version
+ */
+const isVersionedCapability = (name: string): name is VersionedCapability =>
+	name in minimumVersions;
+
+/**
+ * Determines whether a server advertises a code action kind
+ *
+ * Servers that don't list the kinds of their code actions are assumed to
+ * provide them all. Listing a kind covers the kinds nested under it, so that
+ * `source.fixAll` covers `source.fixAll.biome`.
+ */
+const providesCodeAction = (
+	{ codeActionProvider }: InitializeResult["capabilities"],
+	kind: string,
+): boolean => {
+	if (!codeActionProvider) {
+		return false;
+	}
+
+	if (codeActionProvider === true || !codeActionProvider.codeActionKinds) {
+		return true;
+	}
+
+	return codeActionProvider.codeActionKinds.some(
+		(provided) => kind === provided || kind.startsWith(`${provided}.`),
+	);
+};
+
+/**
+ * Capabilities of a Biome binary
+ *
+ * The capabilities are first inferred from the version reported by
+ * `biome --version`, which tells which CLI flags and commands the binary
+ * understands before it's even started. Once the language server has
+ * initialized, what it advertises tells which custom requests and code
+ * actions can be used.
+ *
+ * Features that depend on the version of Biome should be gated here rather
+ * than by parsing the version on their own.
+ */
+export default class Capabilities {
+	/**
+	 * The version of the binary without its prerelease, if it could be parsed
+	 */
+	private readonly release: SemVer | null;
+
+	/**
+	 * The capabilities advertised by the language server, once initialized
+	 */
+	private serverCapabilities: Record<ServerCapability, boolean> | undefined;
+
+	/**
+	 * Creates the capabilities of a binary from its version
+	 *
+	 * @param version The version reported by `biome --version`, if any
+	 */
+	constructor(public readonly version: string | undefined) {
+		this.release = version ? coerce(version) : null;
+	}
+
+	/**
+	 * Whether the binary is a development build
+	 *
+	 * Biome binaries built from source report version 0.0.0. They're assumed
+	 * to support every capability.
+	 */
+	public get isDevelopmentBuild(): boolean {
+		return this.version === "0.0.0";
+	}
+
+	/**
+	 * Determines whether the binary supports a capability
+	 *
+	 * Server capabilities are reported as unsupported until the language
+	 * server has initialized.
+	 */
+	public supports(capability: Capability): boolean {
+		if (isVersionedCapability(capability)) {
+			return this.supportsVersion(capability);
+		}
+
+		return this.serverCapabilities?.[capability] ?? false;
+	}
+
+	/**
+	 * Completes the capabilities with the result of the initialize request
+	 */
+	public update({ capabilities, serverInfo }: InitializeResult): void {
+		this.serverCapabilities = {
+			syntaxTree: serverInfo?.name === "biome_lsp",
+			fixAll: providesCodeAction(capabilities, "source.fixAll.biome"),
+			organizeImports: providesCodeAction(
+				capabilities,
+				"source.organizeImports.biome",
+			),
+		};
+	}
+
+	/**
+	 * Determines whether the version of the binary supports a capability
+	 *
+	 * Prereleases are considered to support the capabilities of the release
+	 * they precede, since nightly builds ship features ahead of the release.
+	 */
+	private supportsVersion(capability: VersionedCapability): boolean {
+		if (this.isDevelopmentBuild) {
+			return true;
+		}
+
+		return (
+			this.release !== null && gte(this.release, minimumVersions[capability])
+		);
+	}
+
+	/**
+	 * Describes the capabilities, one per line, for logging purposes
+	 */
+	public describe(): string {
+		const lines = [
+			`Version: ${this.version ?? "unknown"}${this.isDevelopmentBuild ? " (development build)" : ""}`,
+		];
+
+		for (const capability of Object.keys(minimumVersions).filter(
+			isVersionedCapability,
+		)) {
+			lines.push(
+				`${capability}: ${this.supports(capability) ? "yes" : "no"} (requires ${minimumVersions[capability]})`,
+			);
+		}
+
+		if (!this.serverCapabilities) {
+			lines.push("Server capabilities: unknown until initialized");
+		}
+
+		for (const [capability, supported] of Object.entries(
+			this.serverCapabilities ?? {},
+		)) {
+			lines.push(
+				`${capability}: ${supported ? "yes" : "no"} (advertised by the server)`,
+			);
+		}
+
+		return lines.join("\n");
+	}
+}
@@ -1,5 +1,6 @@
 import { spawnSync } from "node:child_process";
 import isWSL from "is-wsl";
+import type { PackageManager } from "./types";
 
 /**
  * Identifiers of the languages supported by the extension
@@ -27,6 +28,32 @@ export const supportedLanguages: string[] = [
 	"xml",
 ];
 
+/**
+ * Names of the Biome configuration files
+ *
+ * This constant contains the names of the configuration files that Biome looks
+ * for, in order of precedence.
+ */
+export const configurationFileNames: string[] = ["biome.json", "biome.jsonc"];
+
+/**
+ * Lockfiles of the supported package managers
+ *
+ * This constant maps the names of the lockfiles to the package manager that
+ * creates them, which lets us detect the package manager used by a project.
+ * The Yarn PnP loader is included since it changes along with the lockfile.
+ */
+export const lockfiles: Record<string, PackageManager> = {
+	"package-lock.json": "npm",
+	"npm-shrinkwrap.json": "npm",
+	"yarn.lock": "yarn",
+	".pnp.cjs": "yarn",
+	"bun.lockb": "bun",
+	"bun.lock": "bun",
+	"pnpm-lock.yaml": "pnpm",
+	"deno.lock": "deno",
+};
+
 /**
  * Whether the current platform uses musl
  */
@@ -0,0 +1,91 @@
+import { stat } from "node:fs/promises";
+import { dirname, isAbsolute } from "node:path";
+import { Uri, type WorkspaceFolder } from "vscode";
+import { platformSpecificBinaryName } from "./constants";
+import type { BuildInfo } from "./types";
+import { config, safeSpawn } from "./utils";
+
+/**
+ * Determines whether contributor mode is enabled
+ *
+ * Contributor mode is meant for people working on Biome itself. It runs the
+ * binary built by cargo, restarts as soon as it's rebuilt, and traces the
+ * communication with the language server.
+ *
+ * @param folder The workspace folder for which to read the setting
+ */
+export const isContributorModeEnabled = (folder?: WorkspaceFolder): boolean => {
+	return config("contributor.enabled", { scope: folder, default: false });
+};
+
+/**
+ * Retrieves the Biome binary in the cargo target directory
+ *
+ * The target directory comes from the `biome.contributor.targetDirectory`
+ * setting, then from the `CARGO_TARGET_DIR` environment variable, and
+ * defaults to the `target` directory of the workspace folder. Relative paths
+ * are resolved against the workspace folder.
+ *
+ * @param folder The workspace folder for which to find the binary
+ * @returns The expected location of the binary, whether it exists or not
+ */
+export const getCargoBinary = (folder?: WorkspaceFolder): Uri | undefined => {
+	const targetDirectory =
+		config("contributor.targetDirectory", { scope: folder, default: "" }) ||
+		process.env.CARGO_TARGET_DIR ||
+		"target";
+
+	const profile = config("contributor.profile", {
+		scope: folder,
+		default: "debug",
+	});
+
+	if (isAbsolute(targetDirectory)) {
+		return Uri.joinPath(
+			Uri.file(targetDirectory),
+			profile,
+			platformSpecificBinaryName,
+		);
+	}
+
+	if (!folder) {
+		return undefined;
+	}
+
+	return Uri.joinPath(
+		folder.uri,
+		targetDirectory,
+		profile,
+		platformSpecificBinaryName,
+	);
+};
+
+/**
+ * Describes how a locally built binary was built
+ *
+ * The build time is the modification time of the binary. Cargo doesn't
+ * record the commit a binary was built from, so the commit checked out in the
+ * repository containing the target directory is reported instead, and the
+ * binary is flagged as outdated when that commit was made after the build.
+ *
+ * @param binary The binary built by cargo
+ */
+export const describeBuild = async (binary: Uri): Promise<BuildInfo> => {
+	const [stats, head] = await Promise.all([
+		stat(binary.fsPath).catch(() => undefined),
+		safeSpawn("git", ["log", "-1", "--format=%h %ct", "HEAD"], {
+			cwd: dirname(binary.fsPath),
+		}),
+	]);
+
+	const [checkout, committedAt] = head?.trim().split(" ") ?? [];
+
+	return {
+		builtAt: stats ? new Date(stats.mtimeMs) : undefined,
+		checkout: checkout || undefined,
+		outdated:
+			stats !== undefined && committedAt !== undefined
+				? Number(committedAt) * 1000 > stats.mtimeMs
+				: undefined,
+	};
+};
@@ -2,7 +2,9 @@ import { isAbsolute, relative, resolve } from "node:path";
 import {
 	ConfigurationTarget,
 	commands,
+	type Disposable,
 	type ExtensionContext,
+	type TextDocument,
 	type TextEditor,
 	Uri,
 	type WorkspaceFolder,
@@ -11,13 +13,32 @@ import {
 } from "vscode";
 import { Utils } from "vscode-uri";
 import { version } from "../package.json";
+import BinaryCache from "./binary-cache";
+import { pickBinary } from "./binary-picker";
 import Biome from "./biome";
+import BiomeConfiguration from "./biome-configuration";
 import { supportedLanguages } from "./constants";
+import FileStatus from "./file-status";
+import IgnoredFiles from "./ignored-files";
+import Locator from "./locator";
 import Logger from "./logger";
-import Session from "./session";
+import { showQuickActions } from "./quick-actions";
+import SessionsView from "./sessions-view";
 import { StatusBar } from "./status-bar";
+import SyntaxTree from "./syntax-tree";
 import type { ExecutionMode } from "./types";
-import { config, debounce } from "./utils";
+import { config, debounce, forEachConcurrently } from "./utils";
+
+/**
+ * Interval between two collections of unused binary copies, in milliseconds
+ */
+const binaryGarbageCollectionInterval = 60 * 60 * 1000;
+
+/**
+ * Key of the workspace state recording that the legacy binary copies, made
+ * before the binary cache existed, were removed
+ */
+const legacyCopiesRemovedKey = "legacyBinaryCopiesRemoved";
 
 type FileBackedBiomeSession = {
 	name: string;
@@ -49,6 +70,38 @@ export default class Extension {
 	 */
 	private statusBar: StatusBar;
 
+	/**
+	 * The provider for the syntax tree document
+	 */
+	private syntaxTree: SyntaxTree;
+
+	/**
+	 * The view listing the Biome instances
+	 */
+	private sessionsView: SessionsView;
+
+	/**
+	 * The language status items telling whether Biome handles a file
+	 */
+	private fileStatus: FileStatus;
+
+	/**
+	 * The decorations of the files ignored by Biome
+	 */
+	private ignoredFiles: IgnoredFiles;
+
+	/**
+	 * The copies of the Biome binaries executed from a temporary location
+	 *
+	 * This is only available when the workspace has a storage directory.
+	 */
+	public readonly binaryCache: BinaryCache | undefined;
+
+	/**
+	 * The listener responsible for starting idle Biome instances
+	 */
+	private lazyStartListener: Disposable | undefined;
+
 	/**
 	 * Workspace Biome instances
 	 *
@@ -82,13 +135,23 @@ export default class Extension {
 			return undefined;
 		}
 
+		return this.getBiome(editor.document);
+	}
+
+	/**
+	 * Retrieves the Biome instance responsible for a document
+	 *
+	 * This method returns the Biome instance to which the given document
+	 * belongs to, if any.
+	 */
+	public getBiome(document: TextDocument): Biome | undefined {
 		// Untitled documents are always handled by the global instance
-		if (editor.document.isUntitled) {
+		if (document.isUntitled) {
 			return this.biomes.get("global");
 		}
 
 		// VS Code settings files are also handled by the global instance
-		if (editor.document.uri.scheme === "vscode-userdata") {
+		if (document.uri.scheme === "vscode-userdata") {
 			return this.biomes.get("global");
 		}
 
@@ -99,7 +162,7 @@ export default class Extension {
 
 		// Otherwise, check to which workspace folder the document belongs to
 		// and return the corresponding Biome instance
-		const folder = workspace.getWorkspaceFolder(editor.document.uri);
+		const folder = workspace.getWorkspaceFolder(document.uri);
 
 		if (folder) {
 			return this.biomes.get(folder);
@@ -117,7 +180,17 @@ export default class Extension {
 	private constructor(public readonly context: ExtensionContext) {
 		this.logger = new Logger("Biome");
 		this.statusBar = new StatusBar(this);
+		this.syntaxTree = new SyntaxTree(this);
+		this.sessionsView = new SessionsView(this);
+		this.fileStatus = new FileStatus(this);
+		this.ignoredFiles = new IgnoredFiles(this);
 		this.biomes = new Map();
+		this.binaryCache = context.storageUri
+			? new BinaryCache(
+					Uri.joinPath(context.storageUri, "binaries"),
+					this.logger,
+				)
+			: undefined;
 	}
 
 	/**
@@ -141,6 +214,8 @@ export default class Extension {
 
 		await this.start();
 
+		this.scheduleBinaryGarbageCollection();
+
 		// When workspace folders change, restart everything
 		workspace.onDidChangeWorkspaceFolders(async () => {
 			this.logger.info("🔍 Workspace folders changed.");
@@ -174,17 +249,13 @@ export default class Extension {
 		// Create the Biome instance before the status bar so we can show their state
 		await this.createInstances();
 
-		// Render the status bar for the first time
+		// Render the status bar and the sessions view for the first time
 		this.statusBar.update();
+		this.sessionsView.refresh();
 
-		// Register callbacks to refresh the status bar with the state of the
-		// active Biome instance
+		// Register callbacks to reflect the state of the Biome instances
 		for (const [_folder, biome] of this.biomes) {
-			biome.onStateChange(() => {
-				if (biome === this.biome) {
-					this.statusBar.update();
-				}
-			});
+			this.listenForStateChanges(biome);
 		}
 
 		// Register a callback to update the status bar when the active text editor changes
@@ -219,14 +290,39 @@ export default class Extension {
 	public async stop(): Promise<void> {
 		this.logger.trace("⏹️ Stopping Biome extension...");
 
+		this.lazyStartListener?.dispose();
+		this.lazyStartListener = undefined;
+
 		for (const [_folder, biome] of this.biomes) {
 			await biome.stop();
 			this.biomes.delete(_folder);
 		}
 
+		this.sessionsView.refresh();
+
 		this.logger.info("⏹️ Biome extension stopped.");
 	}
 
+	/**
+	 * Registers a callback to reflect the state of a Biome instance
+	 *
+	 * Both the sessions view and the status bar are refreshed whenever any
+	 * instance changes state, since the status bar tooltip compares the
+	 * versions of Biome used by every workspace folder.
+	 */
+	private listenForStateChanges(biome: Biome): void {
+		biome.onStateChange(({ state }) => {
+			this.sessionsView.refresh();
+			this.statusBar.update();
+			this.fileStatus.update();
+
+			// Enabling or disabling Biome changes which files it ignores
+			if (state === "ready" || state === "disabled") {
+				this.ignoredFiles.refresh();
+			}
+		});
+	}
+
 	private warnAboutOverlappingSessions(): void {
 		const overlaps = this.getOverlappingSessionPairs();
 
@@ -261,30 +357,209 @@ export default class Extension {
 	 * This method will stop the extension and then start it again.
 	 */
 	public async restart(): Promise<void> {
-		Session.clearCache();
+		Locator.clearCache();
 		await this.stop();
 		this.logger.info("🔄 Restarting Biome extension...");
 		await this.start();
 	}
 
+	/**
+	 * Periodically removes the copies of Biome binaries that are no longer used
+	 *
+	 * Copies are kept for the number of days set in the
+	 * `biome.temporaryBinaries.retentionDays` setting after their last use, so
+	 * switching between versions doesn't require copying the binaries again.
+	 */
+	private scheduleBinaryGarbageCollection(): void {
+		const cache = this.binaryCache;
+
+		if (!cache) {
+			return;
+		}
+
+		const collect = () => {
+			const retentionDays = config("temporaryBinaries.retentionDays", {
+				default: 7,
+			});
+			// Starting instances hold a copy before their session exists
+			const inUse = Array.from(this.biomes.values()).flatMap((biome) =>
+				[biome.session?.bin, biome.temporaryBinary].filter(
+					(copy): copy is Uri => copy !== undefined,
+				),
+			);
+
+			void cache.collectGarbage(retentionDays * 24 * 60 * 60 * 1000, inUse);
+		};
+
+		if (!this.context.workspaceState.get(legacyCopiesRemovedKey)) {
+			void cache.removeLegacyCopies().then((removed) => {
+				if (removed) {
+					return this.context.workspaceState.update(
+						legacyCopiesRemovedKey,
+						true,
+					);
+				}
+			});
+		}
+
+		collect();
+
+		const interval = setInterval(collect, binaryGarbageCollectionInterval);
+
+		this.context.subscriptions.push({
+			dispose: () => clearInterval(interval),
+		});
+	}
+
 	/**
 	 * Registers the extension's commands
 	 */
 	private registerCommands(): void {
-		const showLogsCommand = commands.registerCommand("biome.showLogs", () =>
-			this.biome?.logger.show(true),
+		const showLogsCommand = commands.registerCommand(
+			"biome.showLogs",
+			(biome?: Biome) => (biome ?? this.biome)?.logger.show(true),
 		);
 
 		const restartCommand = commands.registerCommand(
 			"biome.restart",
 			async () => {
-				Session.clearCache();
+				Locator.clearCache();
 				await this.stop();
 				await this.start();
 			},
 		);
 
-		this.context.subscriptions.push(...[showLogsCommand, restartCommand]);
+		const showSyntaxTreeCommand = commands.registerCommand(
+			"biome.showSyntaxTree",
+			() => this.syntaxTree.show(),
+		);
+
+		const restartFolderCommand = commands.registerCommand(
+			"biome.restartFolder",
+			async (target?: unknown) =>
+				await (await this.resolveInstance(target))?.restart(),
+		);
+
+		const stopCommand = commands.registerCommand(
+			"biome.stop",
+			async (target?: unknown) =>
+				await (await this.resolveInstance(target))?.stop(),
+		);
+
+		const startCommand = commands.registerCommand(
+			"biome.start",
+			async (target?: unknown) =>
+				await (await this.resolveInstance(target))?.start(),
+		);
+
+		const selectBinaryCommand = commands.registerCommand(
+			"biome.selectBinary",
+			async (target?: unknown) => {
+				const biome = await this.resolveInstance(target);
+
+				if (biome) {
+					await pickBinary(biome);
+				}
+			},
+		);
+
+		const showQuickActionsCommand = commands.registerCommand(
+			"biome.showQuickActions",
+			async (target?: unknown) => {
+				const biome = await this.resolveInstance(target);
+
+				if (biome) {
+					await showQuickActions(biome);
+				}
+			},
+		);
+
+		const showResolutionReportCommand = commands.registerCommand(
+			"biome.showResolutionReport",
+			async (target?: unknown) => {
+				const biome = await this.resolveInstance(target);
+
+				if (!biome) {
+					return;
+				}
+
+				if (!biome.resolutionReport) {
+					window.showInformationMessage(
+						`Biome has not looked for a binary for ${biome.name} yet.`,
+					);
+					return;
+				}
+
+				const document = await workspace.openTextDocument({
+					language: "markdown",
+					content: biome.resolutionReport.toMarkdown(
+						`Biome binary resolution (${biome.name})`,
+					),
+				});
+
+				await window.showTextDocument(document, { preview: true });
+			},
+		);
+
+		this.context.subscriptions.push(
+			...[
+				showLogsCommand,
+				restartCommand,
+				showSyntaxTreeCommand,
+				restartFolderCommand,
+				stopCommand,
+				startCommand,
+				selectBinaryCommand,
+				showResolutionReportCommand,
+				showQuickActionsCommand,
+			],
+			...this.syntaxTree.register(),
+			...this.sessionsView.register(),
+			...this.fileStatus.register(),
+			...this.ignoredFiles.register(),
+			...BiomeConfiguration.watch(),
+		);
+	}
+
+	/**
+	 * Resolves the Biome instance a command should act upon
+	 *
+	 * When a command is not given an instance explicitly, for example when it
+	 * is invoked from the command palette rather than the sessions view, it
+	 * acts upon the instance of the active text editor. If there is none, the
+	 * user is asked to pick one.
+	 */
+	private async resolveInstance(target?: unknown): Promise<Biome | undefined> {
+		if (target instanceof Biome) {
+			return target;
+		}
+
+		return this.biome ?? (await this.pickInstance());
+	}
+
+	/**
+	 * Asks the user to pick one of the Biome instances
+	 */
+	private async pickInstance(): Promise<Biome | undefined> {
+		const instances = Array.from(this.biomes.values());
+
+		if (instances.length <= 1) {
+			return instances[0];
+		}
+
+		const item = await window.showQuickPick(
+			instances.map((biome) => ({
+				label: biome.name,
+				description: biome.version
+					? `${biome.state} · ${biome.version}`
+					: biome.state,
+				detail: biome.root?.fsPath,
+				biome,
+			})),
+			{ placeHolder: "Select a Biome instance" },
+		);
+
+		return item?.biome;
 	}
 
 	private async createInstances(): Promise<void> {
@@ -353,6 +628,7 @@ export default class Extension {
 		const createGlobalInstanceIfNotExists = async () => {
 			if (!this.biomes.get("global")) {
 				const biome = Biome.createGlobalInstance(this);
+				this.listenForStateChanges(biome);
 				biome.start();
 
 				this.biomes.set("global", biome);
@@ -413,11 +689,65 @@ export default class Extension {
 	 * Starts the Biome instances
 	 */
 	private async startInstances(): Promise<void> {
-		for (const [_folder, biome] of this.biomes) {
-			await biome.start();
+		const instances = Array.from(this.biomes.values());
+
+		// Instances that start lazily are only started right away if a
+		// supported document from their workspace folder is already open.
+		const deferred = instances.filter(
+			(biome) =>
+				biome.startsLazily &&
+				!workspace.textDocuments.some(
+					(document) =>
+						supportedLanguages.includes(document.languageId) &&
+						this.getBiome(document) === biome,
+				),
+		);
+
+		for (const biome of deferred) {
+			biome.deferStart();
+		}
+
+		if (deferred.length > 0) {
+			this.listenForLazyStarts();
 		}
 
-		this.logger.info(`🚀 Started ${this.biomes.size} Biome instance(s).`);
+		const concurrency = config("startup.concurrency", { default: 4 });
+
+		await forEachConcurrently(
+			instances.filter((biome) => !deferred.includes(biome)),
+			concurrency,
+			(biome) => biome.start(),
+		);
+
+		this.logger.info(
+			`🚀 Started ${instances.length - deferred.length} Biome instance(s), ${deferred.length} deferred.`,
+		);
+	}
+
+	/**
+	 * Starts idle Biome instances when a supported document is opened
+	 *
+	 * This listener lets instances that start lazily start as soon as a
+	 * document from their workspace folder is opened. VS Code also reopens
+	 * documents when their language changes, which is covered as well.
+	 */
+	private listenForLazyStarts(): void {
+		this.lazyStartListener ??= workspace.onDidOpenTextDocument(
+			async (document) => {
+				if (!supportedLanguages.includes(document.languageId)) {
+					return;
+				}
+
+				const biome = this.getBiome(document);
+
+				if (biome?.state === "idle") {
+					this.logger.info(
+						`🚀 Starting Biome for "${biome.name}" because "${document.uri.fsPath}" was opened.`,
+					);
+					await biome.start();
+				}
+			},
+		);
 	}
 
 	private getOverlappingSessionPairs(): OverlappingBiomeSessionPair[] {
@@ -0,0 +1,139 @@
+import {
+	type Disposable,
+	type LanguageStatusItem,
+	LanguageStatusSeverity,
+	languages,
+	window,
+} from "vscode";
+import BiomeConfiguration, {
+	type ConfigurationEntry,
+	type FileInspection,
+} from "./biome-configuration";
+import { supportedLanguages } from "./constants";
+import type Extension from "./extension";
+
+/**
+ * Shows whether Biome handles the file in the active editor
+ *
+ * A language status item is created for every supported language. It tells
+ * whether Biome formats and lints the active file, or why it doesn't, and
+ * links to the configuration entry responsible.
+ */
+export default class FileStatus {
+	/**
+	 * The language status items, keyed by language identifier
+	 */
+	private readonly items = new Map<string, LanguageStatusItem>();
+
+	/**
+	 * Creates a new file status
+	 */
+	constructor(private readonly extension: Extension) {}
+
+	/**
+	 * Registers the language status items and their listeners
+	 */
+	public register(): Disposable[] {
+		for (const language of supportedLanguages) {
+			const item = languages.createLanguageStatusItem(
+				`biome.fileStatus.${language}`,
+				{ language },
+			);
+			item.name = "Biome";
+			this.items.set(language, item);
+		}
+
+		return [
+			...this.items.values(),
+			BiomeConfiguration.onDidChange(() => this.update()),
+			window.onDidChangeActiveTextEditor(() => this.update()),
+		];
+	}
+
+	/**
+	 * Updates the language status item of the active document
+	 */
+	public async update(): Promise<void> {
+		const document = window.activeTextEditor?.document;
+		const item = document && this.items.get(document.languageId);
+
+		if (!document || !item) {
+			return;
+		}
+
+		const biome = this.extension.getBiome(document);
+
+		item.command = undefined;
+		item.severity = LanguageStatusSeverity.Information;
+
+		if (biome?.state !== "ready") {
+			item.text = "$(circle-slash) Biome is not running";
+			item.detail = biome?.reason;
+			return;
+		}
+
+		const configuration = await biome.loadConfiguration();
+
+		if (!configuration) {
+			item.text = "$(check) Formatted and linted";
+			item.detail = "Default configuration";
+			return;
+		}
+
+		const limitation = configuration.limitation(document.uri);
+		let entry: ConfigurationEntry | undefined;
+
+		if (limitation) {
+			item.text = "$(question) Status unknown";
+			item.detail = limitation;
+		} else {
+			const inspection = await configuration.inspect(
+				document.uri,
+				document.languageId,
+			);
+			entry = this.describe(item, inspection);
+		}
+
+		item.command = {
+			title: "Open configuration",
+			command: "vscode.open",
+			arguments: [
+				configuration.uri,
+				entry ? { selection: configuration.locate(entry.path) } : undefined,
+			],
+		};
+	}
+
+	/**
+	 * Describes the inspection of a file in a language status item
+	 *
+	 * @returns The configuration entry that explains the inspection, if any
+	 */
+	private describe(
+		item: LanguageStatusItem,
+		{ ignoredBy, formatter, linter }: FileInspection,
+	): ConfigurationEntry | undefined {
+		if (ignoredBy) {
+			item.text = "$(eye-closed) Ignored by Biome";
+			item.detail = ignoredBy.description;
+			item.severity = LanguageStatusSeverity.Warning;
+			return ignoredBy;
+		}
+
+		const disabled = [formatter, linter].find(({ enabled }) => !enabled);
+
+		if (formatter.enabled && linter.enabled) {
+			item.text = "$(check) Formatted and linted";
+		} else if (formatter.enabled) {
+			item.text = "$(check) Formatted, not linted";
+		} else if (linter.enabled) {
+			item.text = "$(check) Linted, not formatted";
+		} else {
+			item.text = "$(circle-slash) Not formatted nor linted";
+		}
+
+		item.detail = disabled?.entry?.description;
+
+		return disabled?.entry;
+	}
+}
@@ -0,0 +1,97 @@
+import {
+	type CancellationToken,
+	type Disposable,
+	EventEmitter,
+	FileDecoration,
+	type FileDecorationProvider,
+	FileType,
+	ThemeColor,
+	type Uri,
+	window,
+	workspace,
+} from "vscode";
+import BiomeConfiguration from "./biome-configuration";
+import type Extension from "./extension";
+
+/**
+ * Decorates the files and directories ignored by Biome in the explorer
+ *
+ * Each file is checked against the root configuration of the Biome instance
+ * of its workspace folder, and against the ignore files of the VCS when the
+ * configuration uses them. Files that the configuration can't inspect
+ * reliably aren't decorated.
+ */
+export default class IgnoredFiles implements FileDecorationProvider {
+	/**
+	 * Emits when the decorations should be refreshed
+	 */
+	private readonly emitter = new EventEmitter<undefined>();
+
+	/**
+	 * Event fired when the decorations change
+	 */
+	public readonly onDidChangeFileDecorations = this.emitter.event;
+
+	/**
+	 * Creates a new provider of decorations for ignored files
+	 */
+	constructor(private readonly extension: Extension) {}
+
+	/**
+	 * Registers the decoration provider and its listeners
+	 */
+	public register(): Disposable[] {
+		return [
+			this.emitter,
+			window.registerFileDecorationProvider(this),
+			BiomeConfiguration.onDidChange(() => this.refresh()),
+		];
+	}
+
+	/**
+	 * Refreshes the decorations of every file
+	 */
+	public refresh(): void {
+		this.emitter.fire(undefined);
+	}
+
+	public async provideFileDecoration(
+		uri: Uri,
+		_token: CancellationToken,
+	): Promise<FileDecoration | undefined> {
+		if (uri.scheme !== "file") {
+			return undefined;
+		}
+
+		const folder = workspace.getWorkspaceFolder(uri);
+		const biome = folder && this.extension.biomes.get(folder);
+
+		if (!biome?.enabled) {
+			return undefined;
+		}
+
+		const configuration = await biome.loadConfiguration();
+
+		if (!configuration || configuration.limitation(uri)) {
+			return undefined;
+		}
+
+		const ignoredBy = await configuration.ignores(uri, {
+			isDirectory: () =>
+				workspace.fs.stat(uri).then(
+					(stats) => (stats.type & FileType.Directory) !== 0,
+					() => false,
+				),
+		});
+
+		if (!ignoredBy) {
+			return undefined;
+		}
+
+		return new FileDecoration(
+			undefined,
+			`Ignored by Biome: ${ignoredBy.description}`,
+			new ThemeColor("gitDecoration.ignoredResourceForeground"),
+		);
+	}
+}
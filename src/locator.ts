@@ -1,4 +1,4 @@
-import { readdirSync } from "node:fs";
+import { readdir } from "node:fs/promises";
 import { createRequire } from "node:module";
 import { homedir } from "node:os";
 import { basename, delimiter, dirname, join } from "node:path";
@@ -17,17 +17,37 @@ import {
 	platformSpecificBinaryName,
 	platformSpecificNodePackageName,
 } from "./constants";
-import {
-	config,
-	fileExists,
-	getLspBin,
-	type SafeSpawnSyncOptions,
-	safeSpawnSync,
-} from "./utils";
+import { getCargoBinary, isContributorModeEnabled } from "./contributor-mode";
+import type ResolutionReport from "./resolution-report";
+import { ResolutionStep } from "./resolution-report";
+import type { LocatedBinary, LocatorStrategy, StartupOptions } from "./types";
+import { config, fileExists, getLspBin, safeSpawn } from "./utils";
+
+type Strategy = {
+	name: LocatorStrategy;
+	find: (step: ResolutionStep) => Promise<Uri | undefined>;
+};
 
 export default class Locator {
-	private get pnpmGlobalNodeModulesPaths(): Uri[] {
-		const root = safeSpawnSync("pnpm", ["root", "-g"], {
+	/**
+	 * Global node_modules directories
+	 *
+	 * Looking up these directories requires running the package managers, so
+	 * they are computed once and shared across all Locator instances.
+	 */
+	private static globalNodeModulesPaths:
+		| Promise<Record<string, Uri[]>>
+		| undefined;
+
+	/**
+	 * Clears the global node_modules directories shared across locators.
+	 */
+	public static clearCache() {
+		Locator.globalNodeModulesPaths = undefined;
+	}
+
+	private static async findPnpmGlobalNodeModulesPaths(): Promise<Uri[]> {
+		const root = await safeSpawn("pnpm", ["root", "-g"], {
 			shell: true,
 		});
 		if (!root) {
@@ -42,10 +62,9 @@ export default class Locator {
 
 		// Since pnpm v11, global package installations are stored in an isolated directory.
 		const roots: Uri[] = [];
-		for (const entry of readdirSync(root, {
-			recursive: false,
+		for (const entry of await readdir(root, {
 			withFileTypes: true,
-		})) {
+		}).catch(() => [])) {
 			if (entry.isSymbolicLink()) {
 				continue;
 			}
@@ -56,10 +75,16 @@ export default class Locator {
 		return roots;
 	}
 
-	private get globalNodeModulesPaths(): Record<string, Uri[]> {
-		const npmGlobalNodeModulesPath = safeSpawnSync("npm", ["root", "-g"], {
-			shell: true,
-		});
+	private static async findGlobalNodeModulesPaths(): Promise<
+		Record<string, Uri[]>
+	> {
+		const [npmGlobalNodeModulesPath, pnpmGlobalNodeModulesPaths] =
+			await Promise.all([
+				safeSpawn("npm", ["root", "-g"], {
+					shell: true,
+				}),
+				Locator.findPnpmGlobalNodeModulesPaths(),
+			]);
 		const bunGlobalNodeModulesPath = Utils.resolvePath(
 			Uri.file(homedir()),
 			".bun/install/global/node_modules",
@@ -67,7 +92,7 @@ export default class Locator {
 
 		return {
 			npm: npmGlobalNodeModulesPath ? [Uri.file(npmGlobalNodeModulesPath)] : [],
-			pnpm: this.pnpmGlobalNodeModulesPaths,
+			pnpm: pnpmGlobalNodeModulesPaths,
 			bun: [bunGlobalNodeModulesPath],
 		};
 	}
@@ -77,6 +102,49 @@ export default class Locator {
 	 */
 	constructor(private readonly biome: Biome) {}
 
+	/**
+	 * Strategies used to locate the Biome binary for a workspace folder
+	 */
+	private get workspaceFolderStrategies(): Strategy[] {
+		return [
+			{
+				name: "contributor",
+				find: (step) => this.findBiomeInCargoTarget(step),
+			},
+			{ name: "pinned", find: (step) => this.findPinnedBiome(step) },
+			{ name: "settings", find: (step) => this.findBiomeInSettings(step) },
+			{
+				name: "node-modules",
+				find: (step) => this.findBiomeInNodeModules(step),
+			},
+			{
+				name: "global-node-modules",
+				find: (step) => this.findBiomeInGlobalNodeModules(step),
+			},
+			{ name: "yarn-pnp", find: (step) => this.findBiomeInYarnPnp(step) },
+			{ name: "path", find: (step) => this.findBiomeInPath(step) },
+		];
+	}
+
+	/**
+	 * Strategies used to locate the Biome binary for the global instance
+	 */
+	private get globalInstanceStrategies(): Strategy[] {
+		return [
+			{
+				name: "contributor",
+				find: (step) => this.findBiomeInCargoTarget(step),
+			},
+			{ name: "pinned", find: (step) => this.findPinnedBiome(step) },
+			{ name: "settings", find: (step) => this.findBiomeInSettings(step) },
+			{
+				name: "global-node-modules",
+				find: (step) => this.findBiomeInGlobalNodeModules(step),
+			},
+			{ name: "path", find: (step) => this.findBiomeInPath(step) },
+		];
+	}
+
 	/**
 	 * Unshims the Biome binary if it is a shim.
 	 *
@@ -89,55 +157,57 @@ export default class Locator {
 	 * from Biome v2 onwards, so if the shim is from an earlier version,
 	 * we will return the original path.
 	 */
-	private async unshim(biome: Uri | undefined): Promise<Uri | undefined> {
-		if (!biome) {
-			return biome;
-		}
+	private async unshim(
+		biome: Uri,
+		report: ResolutionReport,
+		options: StartupOptions,
+	): Promise<Uri> {
+		options.onPhase?.("unshimming");
+
+		const step = report.beginUnshim();
+		const result = await this.resolveShim(biome, step, options);
+		step.finish(result);
+
+		return result;
+	}
 
+	private async resolveShim(
+		biome: Uri,
+		step: ResolutionStep,
+		{ token }: StartupOptions,
+	): Promise<Uri> {
 		this.biome.logger.debug(`🔍 Unshimming Biome binary at "${biome.fsPath}"`);
+		step.check(biome);
 
 		try {
-			const spawnSyncOptions: SafeSpawnSyncOptions = {};
-
-			// Set the current working directory to the project root, if it exists. This runs the `biome` binary from the
-			// project root in case the user's local development environment depends on this, such as when using `asdf`.
-			if (this.biome.workspaceFolder?.uri)
-				spawnSyncOptions.cwd = this.biome.workspaceFolder.uri.fsPath;
-
 			// Check the version of Biome
-			const version = safeSpawnSync(
-				biome.fsPath,
-				["--version"],
-				spawnSyncOptions,
-			)
-				?.split("Version: ")[1]
-				?.trim();
+			const capabilities = await this.biome.probe.capabilities(biome, token);
+			const version = capabilities.version;
 
 			if (!version) {
 				this.biome.logger.warn(
 					`🔍 Could not determine the version of Biome binary at "${biome.fsPath}"`,
 				);
+				step.fail("Could not determine the version of the binary.");
 				return biome;
 			}
 
-			if (version.startsWith("1")) {
+			if (!capabilities.supports("whereAmI")) {
 				this.biome.logger.warn(
-					`🔍 Cannot unshim Biome binary at "${biome.fsPath}" because it is version 1.x.x. Please update to version 2 or higher.`,
+					`🔍 Cannot unshim Biome binary at "${biome.fsPath}" because version ${version} doesn't support it. Please update to version 2 or higher.`,
 				);
+				step.fail(`Biome ${version} cannot be unshimmed.`);
 				return biome;
 			}
 
 			// If the version is 2 or higher, we can safely unshim
-			const realPath = safeSpawnSync(
-				biome.fsPath,
-				["__where_am_i"],
-				spawnSyncOptions,
-			);
+			const realPath = await this.biome.probe.realPath(biome, token);
 
 			if (!realPath) {
 				this.biome.logger.warn(
 					`🔍 Could not resolve the real path for Biome binary at "${biome.fsPath}"`,
 				);
+				step.fail("Could not resolve the real path of the binary.");
 				return biome;
 			}
 
@@ -154,6 +224,7 @@ export default class Locator {
 			this.biome.logger.warn(
 				`🔍 Error while unshimming Biome binary at "${biome.fsPath}": ${error}`,
 			);
+			step.fail(`${error}`);
 		}
 
 		return biome;
@@ -164,20 +235,33 @@ export default class Locator {
 	 *
 	 * This method will try to find the Biome binary using the following strategies:
 	 *
-	 * 1. Check the user's settings for a custom Biome binary path.
-	 * 2. Check the project's `node_modules` directory for a Biome binary.
-	 * 3. Check the project's `yarn` PnP configuration for a Biome binary.
-	 * 4. Check the system's PATH environment variable for a Biome binary.
+	 * 1. Check whether the user pinned a Biome binary for the workspace folder.
+	 * 2. Check the user's settings for a custom Biome binary path.
+	 * 3. Check the project's `node_modules` directory for a Biome binary.
+	 * 4. Check the global `node_modules` directories for a Biome binary.
+	 * 5. Check the project's `yarn` PnP configuration for a Biome binary.
+	 * 6. Check the system's PATH environment variable for a Biome binary.
 	 */
-	public async findBiomeForWorkspaceFolder(): Promise<Uri | undefined> {
-		const biome =
-			(await this.findBiomeInSettings()) ??
-			(await this.findBiomeInNodeModules()) ??
-			(await this.findBiomeInGlobalNodeModules()) ??
-			(await this.findBiomeInYarnPnp()) ??
-			(await this.findBiomeInPath());
-
-		return await this.unshim(biome);
+	public async findBiomeForWorkspaceFolder(
+		report: ResolutionReport,
+		options: StartupOptions = {},
+	): Promise<LocatedBinary | undefined> {
+		const biome = await this.findFirst(
+			this.workspaceFolderStrategies,
+			report,
+			options,
+		);
+
+		if (!biome || options.token?.isCancellationRequested) {
+			return undefined;
+		}
+
+		report.binary = {
+			...biome,
+			uri: await this.unshim(biome.uri, report, options),
+		};
+
+		return report.binary;
 	}
 
 	/**
@@ -185,16 +269,154 @@ export default class Locator {
 	 *
 	 * This method will try to find the Biome binary using the following strategies:
 	 *
-	 * 1. Check the user's settings for a custom Biome binary path.
-	 * 2. Check the system's PATH environment variable for a Biome binary.
+	 * 1. Check whether the user pinned a Biome binary for the global instance.
+	 * 2. Check the user's settings for a custom Biome binary path.
+	 * 3. Check the global `node_modules` directories for a Biome binary.
+	 * 4. Check the system's PATH environment variable for a Biome binary.
+	 */
+	public async findBiomeForGlobalInstance(
+		report: ResolutionReport,
+		options: StartupOptions = {},
+	): Promise<LocatedBinary | undefined> {
+		report.binary = await this.findFirst(
+			this.globalInstanceStrategies,
+			report,
+			options,
+		);
+
+		if (options.token?.isCancellationRequested) {
+			return undefined;
+		}
+
+		return report.binary ?? (await this.suggestInstallingBiomeGlobally());
+	}
+
+	/**
+	 * Attempts to locate every Biome binary available to the instance.
+	 *
+	 * Unlike the other lookup methods, this method runs every strategy instead
+	 * of stopping at the first one that succeeds, which lets users choose
+	 * between the binaries that were found. Binaries found by several
+	 * strategies are only listed once.
+	 */
+	public async findAllBiomes(): Promise<LocatedBinary[]> {
+		const strategies = this.biome.isGlobal
+			? this.globalInstanceStrategies
+			: this.workspaceFolderStrategies;
+
+		const binaries: LocatedBinary[] = [];
+
+		for (const strategy of strategies) {
+			if (strategy.name === "pinned") {
+				continue;
+			}
+
+			const uri = await strategy.find(
+				new ResolutionStep(strategy.name, strategy.name),
+			);
+
+			if (uri && !binaries.some((binary) => binary.uri.fsPath === uri.fsPath)) {
+				binaries.push({ uri, strategy: strategy.name });
+			}
+		}
+
+		return binaries;
+	}
+
+	/**
+	 * Runs the given strategies in order until one finds a Biome binary.
+	 *
+	 * Each strategy is traced in the given report, along with the paths it
+	 * checked and the reason why it failed, if it did. The lookup stops early
+	 * if it's cancelled.
 	 */
-	public async findBiomeForGlobalInstance(): Promise<Uri | undefined> {
-		return (
-			(await this.findBiomeInSettings()) ??
-			(await this.findBiomeInGlobalNodeModules()) ??
-			(await this.findBiomeInPath()) ??
-			(await this.suggestInstallingBiomeGlobally())
+	private async findFirst(
+		strategies: Strategy[],
+		report: ResolutionReport,
+		{ token, onPhase }: StartupOptions,
+	): Promise<LocatedBinary | undefined> {
+		onPhase?.("locating");
+
+		for (const strategy of strategies) {
+			if (token?.isCancellationRequested) {
+				return undefined;
+			}
+
+			const step = report.beginStrategy(strategy.name);
+			const uri = await strategy.find(step);
+			step.finish(uri);
+
+			if (uri) {
+				return { uri, strategy: strategy.name };
+			}
+		}
+
+		return undefined;
+	}
+
+	/**
+	 * Finds the Biome binary built by cargo.
+	 *
+	 * This strategy only applies in contributor mode, in which the binary built
+	 * from the Biome repository takes precedence over every other binary.
+	 */
+	private async findBiomeInCargoTarget(
+		step: ResolutionStep,
+	): Promise<Uri | undefined> {
+		if (!isContributorModeEnabled(this.biome.workspaceFolder)) {
+			step.fail("Contributor mode is disabled.");
+			return;
+		}
+
+		const binary = getCargoBinary(this.biome.workspaceFolder);
+
+		if (!binary) {
+			step.fail("The cargo target directory could not be resolved.");
+			return;
+		}
+
+		this.biome.logger.debug(
+			`🔍 Checking if Biome was built by cargo at "${binary.fsPath}"`,
 		);
+		step.check(binary);
+
+		if (await fileExists(binary)) {
+			return binary;
+		}
+
+		step.fail(`No binary has been built at "${binary.fsPath}".`);
+	}
+
+	/**
+	 * Finds the Biome binary pinned by the user.
+	 *
+	 * This strategy is responsible for finding the Biome binary that the user
+	 * selected with the `Biome: Select Binary` command, which is stored in the
+	 * workspace state.
+	 */
+	private async findPinnedBiome(
+		step: ResolutionStep,
+	): Promise<Uri | undefined> {
+		const pinnedBinary = this.biome.pinnedBinary;
+
+		if (!pinnedBinary) {
+			step.fail("No binary has been pinned.");
+			return;
+		}
+
+		this.biome.logger.debug(
+			`🔍 Checking if the pinned Biome binary exists at "${pinnedBinary.fsPath}"`,
+		);
+		step.check(pinnedBinary);
+
+		if (await fileExists(pinnedBinary)) {
+			return pinnedBinary;
+		}
+
+		this.biome.logger.warn(
+			`🔍 The pinned Biome binary could not be found at "${pinnedBinary.fsPath}"`,
+		);
+		step.fail("The pinned binary does not exist anymore.");
 	}
 
 	/**
@@ -232,7 +454,9 @@ export default class Locator {
 	 *
 	 + General VS Code settings overriding rules apply.
 	 */
-	public async findBiomeInSettings(): Promise<Uri | undefined> {
+	public async findBiomeInSettings(
+		step: ResolutionStep,
+	): Promise<Uri | undefined> {
 		this.biome.logger.debug(`🔍 Looking for a Biome binary in "biome.lsp.bin"`);
 
 		const biomeLspBin = getLspBin(this.biome.workspaceFolder);
@@ -241,6 +465,7 @@ export default class Locator {
 			this.biome.logger.debug(
 				`🔍 Biome binary could not be found in "biome.lsp.bin"`,
 			);
+			step.fail('The "biome.lsp.bin" setting is not set.');
 			return;
 		}
 
@@ -259,6 +484,7 @@ export default class Locator {
 			this.biome.logger.debug(
 				`🔍 Checking if Biome binary exists at "${biomeLspBin.fsPath}"`,
 			);
+			step.check(biomeLspBin);
 
 			if (await fileExists(biomeLspBin)) {
 				this.biome.logger.debug(
@@ -270,6 +496,7 @@ export default class Locator {
 			this.biome.logger.debug(
 				`🔍 Biome binary could not be found in "biome.lsp.bin"`,
 			);
+			step.fail(`No file exists at "${biomeLspBin.fsPath}".`);
 		};
 
 		const findPlatformSpecificBinary = async (
@@ -281,6 +508,10 @@ export default class Locator {
 				);
 				return await findBinary(biomeLspBin[platformIdentifier]);
 			}
+
+			step.fail(
+				`The "biome.lsp.bin" setting has no entry for "${platformIdentifier}".`,
+			);
 		};
 
 		return biomeLspBin instanceof Uri
@@ -310,17 +541,20 @@ export default class Locator {
 	 * linked binaries differently.
 	 */
 	private async findBiomeInNodeModules(
+		step: ResolutionStep,
 		rootPath?: Uri,
 	): Promise<Uri | undefined> {
 		const searchRoot = rootPath ?? this.biome.workspaceFolder?.uri;
 
 		if (!searchRoot) {
+			step.fail("There is no workspace folder to search.");
 			return;
 		}
 
 		this.biome.logger.debug(
 			`🔍 Looking for a Biome binary in Node Modules ${searchRoot.fsPath}`,
 		);
+		step.check(searchRoot);
 
 		try {
 			// Resolve the path to the root @biomejs/biome package starting
@@ -351,23 +585,33 @@ export default class Locator {
 				platformSpecificBinaryName,
 			);
 
+			step.check(biome);
+
 			if (await fileExists(biome)) {
 				this.biome.logger.debug(`🔍 Found Biome binary at "${biome.fsPath}"`);
 				return biome;
 			}
+
+			step.fail(
+				`The binary is missing from "${pathToBiomeCliPackage.fsPath}".`,
+			);
 		} catch (error) {
 			this.biome.logger.debug(
 				`🔍 Error while looking for Biome binary in node modules: ${error}`,
 			);
+			step.fail(`Could not resolve the @biomejs/biome package: ${error}`);
 		}
 	}
 
-	private async findBiomeInGlobalNodeModules(): Promise<Uri | undefined> {
+	private async findBiomeInGlobalNodeModules(
+		step: ResolutionStep,
+	): Promise<Uri | undefined> {
 		this.biome.logger.debug(
 			"🔍 Looking for a Biome binary in global Node Modules",
 		);
 
-		const globalNodeModulesPaths = this.globalNodeModulesPaths;
+		Locator.globalNodeModulesPaths ??= Locator.findGlobalNodeModulesPaths();
+		const globalNodeModulesPaths = await Locator.globalNodeModulesPaths;
 
 		for (const [key, path] of Object.entries(globalNodeModulesPaths).flatMap(
 			([key, paths]) => paths.map((path) => [key, path] as const),
@@ -376,18 +620,30 @@ export default class Locator {
 				`🔍 Found global Node Modules path for ${key}: ${path}`,
 			);
 
-			const biome = await this.findBiomeInNodeModules(path);
+			const biome = await this.findBiomeInNodeModules(
+				new ResolutionStep(key),
+				path,
+			);
+			step.check(path);
+
 			if (biome) {
 				return biome;
 			}
 		}
 
+		step.fail(
+			"No global node_modules directory contains the @biomejs/biome package.",
+		);
+
 		return undefined;
 	}
 
-	private async findBiomeInYarnPnp(): Promise<Uri | undefined> {
+	private async findBiomeInYarnPnp(
+		step: ResolutionStep,
+	): Promise<Uri | undefined> {
 		const folder = this.biome.workspaceFolder;
 		if (!folder) {
+			step.fail("There is no workspace folder to search.");
 			return;
 		}
 
@@ -395,6 +651,7 @@ export default class Locator {
 
 		for (const extension of ["cjs", "js"]) {
 			const yarnPnpFile = Uri.joinPath(folder.uri, `.pnp.${extension}`);
+			step.check(yarnPnpFile);
 
 			if (!(await fileExists(yarnPnpFile))) {
 				continue;
@@ -409,6 +666,7 @@ export default class Locator {
 				);
 
 				if (!rootBiomePackage) {
+					step.fail("Yarn could not resolve the @biomejs/biome package.");
 					continue;
 				}
 
@@ -423,10 +681,13 @@ export default class Locator {
 					this.biome.logger.debug(`🔍 Found Biome binary at "${biome.fsPath}"`);
 					return biome;
 				}
-			} catch {
+			} catch (error) {
+				step.fail(`Could not load the Yarn PnP API: ${error}`);
 				return undefined;
 			}
 		}
+
+		step.fail("The workspace folder does not use Yarn PnP.");
 	}
 
 	/**
@@ -437,18 +698,23 @@ export default class Locator {
 	 * is scanned from left to right, and the first Biome binary that is found
 	 * will be returned.
 	 */
-	private async findBiomeInPath(): Promise<Uri | undefined> {
+	private async findBiomeInPath(
+		step: ResolutionStep,
+	): Promise<Uri | undefined> {
 		this.biome.logger.debug("🔍 Looking for a Biome binary in PATH");
 
 		const path = env.PATH;
 
 		if (!path) {
 			this.biome.logger.warn("The PATH environment variable is not set.");
+			step.fail("The PATH environment variable is not set.");
 			return;
 		}
 
 		for (const dir of path.split(delimiter)) {
 			const biome = Uri.joinPath(Uri.file(dir), platformSpecificBinaryName);
+			step.check(biome);
+
 			if (await fileExists(biome)) {
 				this.biome.logger.debug(
 					`🔍 Found Biome binary at "${biome.fsPath}" in PATH`,
@@ -457,6 +723,8 @@ export default class Locator {
 			}
 		}
 
+		step.fail("No directory in PATH contains a Biome binary.");
+
 		return undefined;
 	}
 
@@ -0,0 +1,186 @@
+import {
+	ConfigurationTarget,
+	commands,
+	env,
+	type QuickPickItem,
+	QuickPickItemKind,
+	version as vscodeVersion,
+	window,
+	workspace,
+} from "vscode";
+import { version } from "../package.json";
+import type Biome from "./biome";
+import { strategyDescriptions } from "./resolution-report";
+
+type QuickActionItem = QuickPickItem & {
+	run?: () => Thenable<unknown>;
+};
+
+/**
+ * Shows the actions available for a Biome instance
+ *
+ * This is what happens when clicking the status bar item. The actions depend
+ * on the state of the instance and on the capabilities of its language
+ * server, so that for example the syntax tree can only be shown once the
+ * language server is ready and supports it.
+ *
+ * @param biome The Biome instance to act upon
+ */
+export const showQuickActions = async (biome: Biome): Promise<void> => {
+	const items = await createItems(biome);
+
+	const item = await window.showQuickPick(items, {
+		title: `Biome (${biome.name})`,
+		placeHolder: biome.reason ?? `Biome is ${biome.state}`,
+		matchOnDescription: true,
+	});
+
+	await item?.run?.();
+};
+
+/**
+ * Creates the quick pick items for the actions available for an instance
+ */
+const createItems = async (biome: Biome): Promise<QuickActionItem[]> => {
+	const items: QuickActionItem[] = [
+		{
+			label: "$(debug-restart) Restart",
+			description: biome.name,
+			run: () => commands.executeCommand("biome.restartFolder", biome),
+		},
+		{
+			label: "$(refresh) Restart All",
+			description: "Restart every Biome instance",
+			run: () => commands.executeCommand("biome.restart"),
+		},
+	];
+
+	const configurationFile = await biome.locateConfigurationFile();
+
+	if (configurationFile) {
+		items.push({
+			label: "$(json) Open Configuration File",
+			description: workspace.asRelativePath(configurationFile),
+			run: () => window.showTextDocument(configurationFile),
+		});
+	}
+
+	const capabilities = biome.session?.capabilities;
+
+	if (biome.state === "ready" && capabilities?.supports("syntaxTree")) {
+		items.push({
+			label: "$(list-tree) Show Syntax Tree",
+			run: () => commands.executeCommand("biome.showSyntaxTree"),
+		});
+	}
+
+	// Code actions apply to the active editor, provided Biome handles it
+	const editor = window.activeTextEditor;
+
+	if (
+		biome.state === "ready" &&
+		editor &&
+		biome.session?.handles(editor.document)
+	) {
+		if (capabilities?.supports("fixAll")) {
+			items.push({
+				label: "$(lightbulb-autofix) Fix All",
+				description: workspace.asRelativePath(editor.document.uri),
+				run: () => applyCodeAction("source.fixAll.biome"),
+			});
+		}
+
+		if (capabilities?.supports("organizeImports")) {
+			items.push({
+				label: "$(list-ordered) Organize Imports",
+				description: workspace.asRelativePath(editor.document.uri),
+				run: () => applyCodeAction("source.organizeImports.biome"),
+			});
+		}
+	}
+
+	items.push({
+		label: "$(file-binary) Select Binary",
+		description: biome.pinnedBinary ? "pinned" : undefined,
+		run: () => commands.executeCommand("biome.selectBinary", biome),
+	});
+
+	if (biome.workspaceFolder) {
+		const folder = biome.workspaceFolder;
+
+		items.push({
+			label: biome.enabled
+				? "$(circle-slash) Disable Biome"
+				: "$(check) Enable Biome",
+			description: folder.name,
+			run: () =>
+				workspace
+					.getConfiguration("biome", folder)
+					.update(
+						"enabled",
+						!biome.enabled,
+						ConfigurationTarget.WorkspaceFolder,
+					),
+		});
+	}
+
+	items.push(
+		{ label: "", kind: QuickPickItemKind.Separator },
+		{
+			label: "$(output) Show Logs",
+			run: () => commands.executeCommand("biome.showLogs", biome),
+		},
+		{
+			label: "$(copy) Copy Diagnostics Info",
+			description: "Useful when reporting issues",
+			run: async () => {
+				await env.clipboard.writeText(collectDiagnosticsInfo(biome));
+				window.showInformationMessage(
+					"Biome diagnostics info copied to the clipboard.",
+				);
+			},
+		},
+	);
+
+	return items;
+};
+
+/**
+ * Applies the first code action of a kind to the active editor
+ */
+const applyCodeAction = (kind: string): Thenable<unknown> =>
+	commands.executeCommand("editor.action.codeAction", { kind, apply: "first" });
+
+/**
+ * Collects information about a Biome instance to help diagnosing issues
+ */
+const collectDiagnosticsInfo = (biome: Biome): string => {
+	const lines = [
+		`Extension version: ${version}`,
+		`VS Code version: ${vscodeVersion}`,
+		`Platform: ${process.platform}-${process.arch}`,
+		`Instance: ${biome.name}`,
+		`State: ${biome.state}${biome.reason ? ` (${biome.reason})` : ""}`,
+		`Previous state: ${biome.transition.previous}`,
+		`Biome version: ${biome.version ?? "unknown"}`,
+		`Binary: ${biome.session?.bin.fsPath ?? "none"}`,
+		`Daemon: ${biome.session?.daemonSocket ?? "none"}`,
+		`Found in: ${biome.strategy ? strategyDescriptions[biome.strategy] : "n/a"}`,
+		`Root: ${biome.root?.fsPath ?? "none"}`,
+		`Configuration file: ${biome.configurationFile?.fsPath ?? "default"}`,
+	];
+
+	const capabilities = biome.session?.capabilities;
+
+	if (capabilities) {
+		lines.push("", "Capabilities:", capabilities.describe());
+	}
+
+	const report = biome.resolutionReport;
+
+	if (report) {
+		lines.push("", "Binary resolution:", report.summarize());
+	}
+
+	return lines.join("\n");
+};
@@ -0,0 +1,201 @@
+import type { Uri } from "vscode";
+import type { LocatedBinary, LocatorStrategy } from "./types";
+
+/**
+ * Human-readable descriptions of the locator strategies
+ */
+export const strategyDescriptions: Record<LocatorStrategy, string> = {
+	contributor: "cargo target directory",
+	pinned: "pinned binary",
+	settings: "biome.lsp.bin setting",
+	"node-modules": "node_modules",
+	"global-node-modules": "global node_modules",
+	"yarn-pnp": "Yarn PnP",
+	path: "PATH",
+};
+
+/**
+ * Trace of a single step of the binary resolution
+ *
+ * A step records the paths it checked, why it failed if it did, and how long
+ * it took to run.
+ */
+export class ResolutionStep {
+	/**
+	 * Paths checked during this step
+	 */
+	public readonly checkedPaths: string[] = [];
+
+	/**
+	 * The path found by this step, if any
+	 */
+	public result: string | undefined;
+
+	/**
+	 * The reason why this step failed, if it did
+	 */
+	public failure: string | undefined;
+
+	/**
+	 * How long this step took, in milliseconds
+	 */
+	public duration = 0;
+
+	/**
+	 * Time at which the step started
+	 */
+	private readonly startedAt = performance.now();
+
+	constructor(
+		public readonly name: string,
+		public readonly strategy?: LocatorStrategy,
+	) {}
+
+	/**
+	 * Records a path checked during this step
+	 */
+	public check(path: Uri | string): void {
+		this.checkedPaths.push(typeof path === "string" ? path : path.fsPath);
+	}
+
+	/**
+	 * Records the reason why this step failed
+	 *
+	 * Only the first reason is kept, as it's usually the most specific one.
+	 */
+	public fail(reason: string): void {
+		this.failure ??= reason;
+	}
+
+	/**
+	 * Marks the step as finished
+	 */
+	public finish(result: Uri | undefined): void {
+		this.duration = performance.now() - this.startedAt;
+		this.result = result?.fsPath;
+
+		if (!result) {
+			this.fail("No Biome binary found.");
+		} else {
+			this.failure = undefined;
+		}
+	}
+}
+
+/**
+ * Trace of a lookup of the Biome binary
+ *
+ * The locator fills a resolution report while it runs its strategies, so
+ * users can understand why a given binary was picked, or why none was found.
+ */
+export default class ResolutionReport {
+	/**
+	 * Time at which the lookup started
+	 */
+	public readonly createdAt = new Date();
+
+	/**
+	 * The strategies that were tried, in order
+	 */
+	public readonly strategies: ResolutionStep[] = [];
+
+	/**
+	 * The unshim step, if the binary needed to be unshimmed
+	 */
+	public unshim: ResolutionStep | undefined;
+
+	/**
+	 * The binary found by the lookup, if any
+	 */
+	public binary: LocatedBinary | undefined;
+
+	/**
+	 * Starts tracing a locator strategy
+	 */
+	public beginStrategy(strategy: LocatorStrategy): ResolutionStep {
+		const step = new ResolutionStep(strategyDescriptions[strategy], strategy);
+		this.strategies.push(step);
+
+		return step;
+	}
+
+	/**
+	 * Starts tracing the unshim step
+	 */
+	public beginUnshim(): ResolutionStep {
+		this.unshim = new ResolutionStep("unshim");
+
+		return this.unshim;
+	}
+
+	/**
+	 * Total time spent resolving the binary, in milliseconds
+	 */
+	public get duration(): number {
+		return [...this.strategies, ...(this.unshim ? [this.unshim] : [])].reduce(
+			(total, step) => total + step.duration,
+			0,
+		);
+	}
+
+	/**
+	 * Summarizes the report in a few lines of plain text
+	 */
+	public summarize(): string {
+		const lines = this.strategies.map(
+			(step) =>
+				`${step.result ? "✓" : "✗"} ${step.name}: ${step.result ?? step.failure} (${formatDuration(step.duration)})`,
+		);
+
+		if (this.unshim?.result) {
+			lines.push(`↪ unshimmed to ${this.unshim.result}`);
+		}
+
+		return lines.join("\n");
+	}
+
+	/**
+	 * Renders the full report as a Markdown document
+	 */
+	public toMarkdown(title: string): string {
+		const lines = [
+			`# ${title}`,
+			"",
+			`- Resolved at: ${this.createdAt.toISOString()}`,
+			`- Total duration: ${formatDuration(this.duration)}`,
+			`- Binary: ${this.binary ? `\`${this.binary.uri.fsPath}\`` : "none"}`,
+			`- Found in: ${this.binary ? strategyDescriptions[this.binary.strategy] : "n/a"}`,
+		];
+
+		for (const step of [
+			...this.strategies,
+			...(this.unshim ? [this.unshim] : []),
+		]) {
+			lines.push(
+				"",
+				`## ${step.result ? "✅" : "❌"} ${step.name}`,
+				"",
+				`- Duration: ${formatDuration(step.duration)}`,
+				step.result
+					? `- Result: \`${step.result}\``
+					: `- Failure: ${step.failure}`,
+			);
+
+			if (step.checkedPaths.length > 0) {
+				lines.push(
+					"- Checked paths:",
+					...step.checkedPaths.map((path) => `  - \`${path}\``),
+				);
+			}
+		}
+
+		return `${lines.join("\n")}\n`;
+	}
+}
+
+/**
+ * Formats a duration in milliseconds
+ */
+const formatDuration = (duration: number): string => {
+	return `${Math.round(duration)} ms`;
+};
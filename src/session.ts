@@ -1,41 +1,134 @@
-import { Uri, type WorkspaceFolder, window } from "vscode";
+import { type ChildProcess, spawn } from "node:child_process";
+import { once } from "node:events";
+import { connect, type Socket } from "node:net";
 import {
+	CancellationError,
+	languages,
+	type TextDocument,
+	Uri,
+	type WorkspaceFolder,
+	window,
+	workspace,
+} from "vscode";
+import {
+	CloseAction,
+	type CloseHandlerResult,
+	type ConfigurationRequest,
+	DidChangeConfigurationNotification,
 	type DocumentFilter,
+	ErrorAction,
+	type ErrorHandler,
 	type InitializeParams,
 	LanguageClient,
 	type LanguageClientOptions,
+	RequestType,
 	type ServerOptions,
-	TransportKind,
+	type StreamInfo,
+	type TextDocumentIdentifier,
+	Trace,
 } from "vscode-languageclient/node";
 import { displayName } from "../package.json";
 import type Biome from "./biome";
+import type Capabilities from "./capabilities";
 import { supportedLanguages } from "./constants";
-import { config, type SafeSpawnSyncOptions, safeSpawnSync } from "./utils";
+import type { DaemonMode, StartupOptions } from "./types";
+import { config, safeSpawn } from "./utils";
+
+type SyntaxTreeParams = {
+	textDocument: TextDocumentIdentifier;
+};
+
+/**
+ * Request for the syntax tree of a document
+ *
+ * This is a custom request handled by the Biome language server, which
+ * responds with a textual representation of the CST of the document.
+ */
+const syntaxTreeRequest = new RequestType<SyntaxTreeParams, string, void>(
+	"biome_lsp/syntaxTree",
+);
+
+/**
+ * Number of lines of the server's standard error output to keep around
+ */
+const stderrTailLength = 20;
 
 export default class Session {
-	private static watcherSupportCache = new Map<
-		string,
-		{ versionString?: string; supportsWatcherArgs: boolean }
-	>();
-
 	/**
 	 * The language client for this session.
 	 */
 	private client: LanguageClient | undefined;
 
-	public get selectorRoot(): Uri | undefined {
-		return this.folder?.uri ?? this.singleFileFolder;
+	/**
+	 * The language server process for this session.
+	 */
+	private process: ChildProcess | undefined;
+
+	/**
+	 * The connection to the Biome daemon, when the session is attached to one.
+	 */
+	private socket: Socket | undefined;
+
+	/**
+	 * The path of the socket of the Biome daemon the session is attached to.
+	 */
+	private _daemonSocket: string | undefined;
+
+	/**
+	 * Whether the language server finished initializing.
+	 */
+	private running = false;
+
+	/**
+	 * Whether the session is being stopped on purpose.
+	 */
+	private stopping = false;
+
+	/**
+	 * The last lines written by the language server to its standard error.
+	 */
+	private readonly stderr: string[] = [];
+
+	/**
+	 * The kind of file watcher used by the language server, if known.
+	 *
+	 * This is only known for versions of Biome that let us pick the watcher.
+	 */
+	private _watcherKind: string | undefined;
+
+	/**
+	 * The capabilities of the binary, known once the client has been created
+	 * and completed once the language server has initialized.
+	 */
+	private _capabilities: Capabilities | undefined;
+
+	public get watcherKind(): string | undefined {
+		return this._watcherKind;
 	}
 
-	public get biomeVersion(): string | undefined {
-		return this.client?.initializeResult?.serverInfo?.version;
+	public get capabilities(): Capabilities | undefined {
+		return this._capabilities;
+	}
+
+	public get daemonSocket(): string | undefined {
+		return this._daemonSocket;
 	}
 
 	/**
-	 * Clears the watcher support cache.
+	 * The directory from which the language server is launched.
 	 */
-	public static clearCache() {
-		Session.watcherSupportCache.clear();
+	private get cwd(): string | undefined {
+		return (
+			this.folder?.uri.fsPath ?? workspace.workspaceFolders?.[0]?.uri.fsPath
+		);
+	}
+
+	public get selectorRoot(): Uri | undefined {
+		return this.folder?.uri ?? this.singleFileFolder;
+	}
+
+	public get biomeVersion(): string | undefined {
+		return this.client?.initializeResult?.serverInfo?.version;
 	}
 
 	/**
@@ -70,10 +163,39 @@ export default class Session {
 
 	/**
 	 * Starts the LSP session.
+	 *
+	 * Cancelling the startup kills the language server, which makes this
+	 * method throw.
 	 */
-	public async start() {
-		this.client = this.createLanguageClient();
-		await this.client.start();
+	public async start(options: StartupOptions = {}) {
+		this.client = await this.createLanguageClient(options);
+
+		const cancellation = options.token?.onCancellationRequested(() =>
+			this.abort(),
+		);
+
+		try {
+			options.onPhase?.("spawning");
+			await this.client.start();
+		} finally {
+			cancellation?.dispose();
+		}
+
+		this.running = true;
+
+		if (this.biome.contributorMode) {
+			await this.client.setTrace(Trace.Verbose);
+		}
+
+		const initializeResult = this.client.initializeResult;
+
+		if (initializeResult) {
+			this._capabilities?.update(initializeResult);
+		}
+
+		this.biome.logger.debug(
+			`🧩 Capabilities:\n${this._capabilities?.describe() ?? "unknown"}`,
+		);
 	}
 
 	/**
@@ -82,58 +204,97 @@ export default class Session {
 	public async stop() {
 		this.biome.logger.debug("Stopping LSP session");
 
-		await this.client?.stop();
+		this.stopping = true;
+
+		try {
+			// A client that failed to start can't be stopped, and would throw
+			if (this.client?.needsStop()) {
+				await this.client.stop();
+			}
+		} catch (error) {
+			this.biome.logger.debug(`Failed to stop the language client: ${error}`);
+		} finally {
+			// The language client only terminates the processes it spawned itself,
+			// so we make sure ours doesn't outlive the session.
+			if (this.process?.exitCode === null) {
+				this.process.kill();
+			}
+
+			// The connection to the daemon is closed, but the daemon keeps running
+			// for its other clients.
+			this.socket?.destroy();
+
+			this.client = undefined;
+		}
 
 		this.biome.logger.debug("LSP session stopped");
+	}
+
+	/**
+	 * Aborts the startup of the LSP session by killing the language server.
+	 */
+	private abort() {
+		this.biome.logger.debug("Aborting LSP session startup");
 
-		this.client = undefined;
+		this.stopping = true;
+		this.process?.kill();
+		this.socket?.destroy();
+	}
+
+	/**
+	 * Notifies the LSP session that the configuration has changed.
+	 *
+	 * This prompts the Biome language server to reload both the extension
+	 * settings and the Biome configuration file.
+	 */
+	public async notifyConfigurationChange() {
+		await this.client?.sendNotification(
+			DidChangeConfigurationNotification.type,
+			{ settings: null },
+		);
+	}
+
+	/**
+	 * Retrieves the syntax tree of a document from the LSP session.
+	 *
+	 * Returns `undefined` when the session isn't running, or when its language
+	 * server doesn't understand the request.
+	 */
+	public async getSyntaxTree(uri: Uri): Promise<string | undefined> {
+		if (
+			!this.client?.isRunning() ||
+			!this._capabilities?.supports("syntaxTree")
+		) {
+			return undefined;
+		}
+
+		return await this.client.sendRequest(syntaxTreeRequest, {
+			textDocument: { uri: uri.toString() },
+		});
+	}
+
+	/**
+	 * Determines whether a document is handled by the LSP session.
+	 */
+	public handles(document: TextDocument): boolean {
+		return languages.match(this.createDocumentSelector(), document) > 0;
 	}
 
 	/**
 	 * Creates a new language client for the session.
 	 */
-	private createLanguageClient(): LanguageClient {
+	private async createLanguageClient({
+		token,
+		onPhase,
+	}: StartupOptions): Promise<LanguageClient> {
 		this.biome.logger.debug(
 			`Creating LSP session for ${this.folder?.name ?? "global"} with ${this.bin.fsPath}`,
 		);
 
 		const args: string[] = ["lsp-proxy"];
 
-		let versionString: string | undefined;
-		let supportsWatcherArgs = false;
-
-		const cached = Session.watcherSupportCache.get(this.bin.fsPath);
-		if (cached) {
-			versionString = cached.versionString;
-			supportsWatcherArgs = cached.supportsWatcherArgs;
-		} else {
-			const spawnSyncOptions: SafeSpawnSyncOptions = {};
-			if (this.folder?.uri) {
-				spawnSyncOptions.cwd = this.folder.uri.fsPath;
-			}
-
-			const versionOutput = safeSpawnSync(
-				this.bin.fsPath,
-				["--version"],
-				spawnSyncOptions,
-			);
-			versionString = versionOutput?.split("Version: ")[1]?.trim();
-
-			if (versionString) {
-				const match = versionString.match(
-					/^(\d+)\.(\d+)\.(\d+)(?:-[0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*)?/,
-				);
-				if (match) {
-					const major = parseInt(match[1], 10);
-					const minor = parseInt(match[2], 10);
-					supportsWatcherArgs = major > 2 || (major === 2 && minor >= 4);
-				}
-			}
-			Session.watcherSupportCache.set(this.bin.fsPath, {
-				versionString,
-				supportsWatcherArgs,
-			});
-		}
+		const capabilities = await this.biome.probe.capabilities(this.bin, token);
+		this._capabilities = capabilities;
 
 		const watcherKind = config<string | null>("lsp.watcher.kind", {
 			scope: this.folder,
@@ -148,13 +309,14 @@ export default class Session {
 			},
 		);
 
-		if (supportsWatcherArgs) {
+		if (capabilities.supports("watcherFlags")) {
 			const WATCHER_KIND_DEFAULT = "recommended";
 			const WATCHER_POLLING_INTERVAL_DEFAULT = 2000;
 
-			this.biome.logger.debug(
-				`File watcher kind: "${watcherKind ?? process.env.BIOME_WATCHER_KIND ?? WATCHER_KIND_DEFAULT}"`,
-			);
+			this._watcherKind =
+				watcherKind ?? process.env.BIOME_WATCHER_KIND ?? WATCHER_KIND_DEFAULT;
+
+			this.biome.logger.debug(`File watcher kind: "${this._watcherKind}"`);
 
 			if (watcherKind && watcherKind !== WATCHER_KIND_DEFAULT) {
 				args.push("--watcher-kind", watcherKind);
@@ -178,14 +340,31 @@ export default class Session {
 		} else if (watcherKind || watcherPollingInterval) {
 			this.biome.logger.warn(
 				"File watcher settings ignored: Biome version 2.4.0 or higher is required. " +
-					`Detected version: ${versionString ?? "unknown"} ("${this.bin.fsPath}").`,
+					`Detected version: ${capabilities.version ?? "unknown"} ("${this.bin.fsPath}").`,
 			);
 		}
 
-		const serverOptions: ServerOptions = {
-			command: this.bin.fsPath,
-			transport: TransportKind.stdio,
-			args,
+		args.push(
+			...config<string[]>("lsp.args", { scope: this.folder, default: [] }),
+		);
+
+		const serverOptions: ServerOptions = async () => {
+			if (token?.isCancellationRequested) {
+				throw new CancellationError();
+			}
+
+			const daemon = config<DaemonMode>("lsp.daemon", {
+				scope: this.folder,
+				default: "off",
+			});
+
+			const server =
+				daemon === "off"
+					? await this.spawnServer(args)
+					: await this.connectToDaemon(daemon === "start");
+			onPhase?.("initializing");
+
+			return server;
 		};
 
 		const outputChannel = window.createOutputChannel(
@@ -198,6 +377,12 @@ export default class Session {
 			traceOutputChannel: outputChannel,
 			documentSelector: this.createDocumentSelector(),
 			workspaceFolder: this.folder,
+			errorHandler: this.createErrorHandler(),
+			middleware: {
+				workspace: {
+					configuration: this.provideConfiguration,
+				},
+			},
 			initializationOptions: {
 				...(this.singleFileFolder && {
 					rootUri: this.singleFileFolder,
@@ -213,6 +398,224 @@ export default class Session {
 		);
 	}
 
+	/**
+	 * Spawns the language server process.
+	 *
+	 * We spawn the process ourselves rather than letting the language client
+	 * do it, so we can keep track of its exit status and of the last lines it
+	 * wrote to its standard error, which help diagnosing crashes.
+	 */
+	private async spawnServer(args: string[]): Promise<ChildProcess> {
+		const [command, ...commandArgs] = this.resolveCommand();
+		const env = config<Record<string, string>>("lsp.env", {
+			scope: this.folder,
+			default: {},
+		});
+
+		this.biome.logger.debug(
+			`Spawning the language server: ${[command, ...commandArgs, ...args].join(" ")}`,
+		);
+
+		const options = { cwd: this.cwd, env: { ...process.env, ...env } };
+
+		// On Windows, batch files such as the `.cmd` wrappers created by package
+		// managers can only be executed through cmd.exe, which has its own
+		// parsing rules. We give it a command line escaped for those rules,
+		// which Node must pass on as is.
+		const server =
+			process.platform === "win32" && /\.(cmd|bat)$/i.test(command)
+				? spawn(
+						process.env.ComSpec ?? "cmd.exe",
+						[
+							"/d",
+							"/s",
+							"/c",
+							`"${toBatchCommandLine(command, [...commandArgs, ...args])}"`,
+						],
+						{ ...options, windowsVerbatimArguments: true },
+					)
+				: spawn(command, [...commandArgs, ...args], options);
+
+		try {
+			await once(server, "spawn");
+		} catch (error) {
+			throw new Error(
+				`Failed to spawn the language server with "${command}": ${error instanceof Error ? error.message : error}`,
+			);
+		}
+
+		server.stderr.on("data", (data: Buffer) => {
+			const lines = data.toString().split(/\r?\n/).filter(Boolean);
+			this.stderr.push(...lines);
+			this.stderr.splice(0, this.stderr.length - stderrTailLength);
+		});
+
+		this.process = server;
+
+		return server;
+	}
+
+	/**
+	 * Connects to the Biome daemon.
+	 *
+	 * The daemon is shared by every client connecting to it, including other
+	 * instances, windows, and the CLI, which lets them share its workspace
+	 * cache. It's never stopped by the extension, so it stays alive when the
+	 * session stops.
+	 *
+	 * @param start Whether to start the daemon if none is running
+	 */
+	private async connectToDaemon(start: boolean): Promise<StreamInfo> {
+		// The path of the socket depends on the version of Biome, so we ask the
+		// binary for it.
+		const path = await this.runCommand(["__print_socket"]);
+
+		if (!path) {
+			throw new Error("Failed to retrieve the socket of the Biome daemon.");
+		}
+
+		let socket = await connectToSocket(path);
+
+		if (!socket && start) {
+			this.biome.logger.info("🔌 Starting a Biome daemon.");
+			await this.runCommand(["start"]);
+			socket = await connectToSocket(path);
+		}
+
+		if (!socket) {
+			throw new Error(
+				`No Biome daemon could be reached at "${path}". Start one with "biome start", or set "biome.lsp.daemon" to "start".`,
+			);
+		}
+
+		this.biome.logger.info(`🔌 Connected to the Biome daemon at "${path}".`);
+
+		this.socket = socket;
+		this._daemonSocket = path;
+
+		return { reader: socket, writer: socket };
+	}
+
+	/**
+	 * Runs a Biome command with the command launching the language server.
+	 */
+	private async runCommand(args: string[]): Promise<string | undefined> {
+		const [command, ...commandArgs] = this.resolveCommand();
+
+		return await safeSpawn(command, [...commandArgs, ...args], {
+			cwd: this.cwd,
+		});
+	}
+
+	/**
+	 * Resolves the command launching the language server.
+	 *
+	 * The command comes from the `biome.lsp.command` setting, which lets users
+	 * launch Biome through a wrapper. The `${biomeBinary}` placeholder in its
+	 * arguments is replaced with the path of the binary.
+	 */
+	private resolveCommand(): string[] {
+		const command = config<string[]>("lsp.command", {
+			scope: this.folder,
+			default: [],
+		});
+
+		if (command.length === 0) {
+			return [this.bin.fsPath];
+		}
+
+		return command.map((part) =>
+			part.replaceAll(/\$\{biomeBinary\}/g, () => this.bin.fsPath),
+		);
+	}
+
+	/**
+	 * Creates the error handler for the language client.
+	 *
+	 * The default error handler restarts the language server on its own, which
+	 * would go unnoticed by the Biome instance. Instead, we report unexpected
+	 * exits to the Biome instance, which decides whether and when to restart.
+	 */
+	private createErrorHandler(): ErrorHandler {
+		return {
+			error: (_error, _message, count) => ({
+				action:
+					count !== undefined && count <= 3
+						? ErrorAction.Continue
+						: ErrorAction.Shutdown,
+			}),
+			closed: async (): Promise<CloseHandlerResult> => {
+				if (this.stopping || !this.running) {
+					return { action: CloseAction.DoNotRestart };
+				}
+
+				const reason = await this.describeExit();
+
+				this.biome.handleCrash(reason, [...this.stderr]);
+
+				return {
+					action: CloseAction.DoNotRestart,
+					message: reason,
+					handled: true,
+				};
+			},
+		};
+	}
+
+	/**
+	 * Describes how the language server process exited.
+	 */
+	private async describeExit(): Promise<string> {
+		const server = this.process;
+
+		// The connection may close slightly before the process exits, so we give
+		// it a moment to report its exit status.
+		if (server && server.exitCode === null && server.signalCode === null) {
+			await Promise.race([
+				once(server, "exit"),
+				new Promise((resolve) => setTimeout(resolve, 1000)),
+			]);
+		}
+
+		if (server?.exitCode !== null && server?.exitCode !== undefined) {
+			return `The Biome language server exited unexpectedly with code ${server.exitCode}.`;
+		}
+
+		if (server?.signalCode) {
+			return `The Biome language server was terminated by signal ${server.signalCode}.`;
+		}
+
+		return "The connection to the Biome language server was closed unexpectedly.";
+	}
+
+	/**
+	 * Provides the extension settings requested by the language server.
+	 *
+	 * The Biome language server requests the `biome` section without a scope,
+	 * so we resolve the settings that depend on the workspace folder here, and
+	 * hand them to the server as absolute values.
+	 */
+	private provideConfiguration: ConfigurationRequest.MiddlewareSignature =
+		async (params, token, next) => {
+			const result = await next(params, token);
+
+			if (!Array.isArray(result)) {
+				return result;
+			}
+
+			return params.items.map((item, index) => {
+				if (item.section !== "biome") {
+					return result[index];
+				}
+
+				return {
+					...(result[index] ?? {}),
+					configurationPath: this.biome.configurationFile?.fsPath ?? null,
+					requireConfiguration: this.biome.requiresConfiguration,
+				};
+			});
+		};
+
 	/**
 	 * Creates the document selector for the language client.
 	 */
@@ -249,6 +652,56 @@ export default class Session {
 	}
 }
 
+/**
+ * Characters that cmd.exe interprets unless they're escaped with a caret
+ */
+const cmdMetaCharacters = /([()\][%!^"`<>&|;, *?])/g;
+
+/**
+ * Builds the command line running a batch file through cmd.exe
+ *
+ * Each argument is first quoted the way the C runtime parses the command
+ * line, then every character that cmd.exe interprets is escaped. Batch files
+ * forwarding their arguments with `%*` make cmd.exe parse them once more, so
+ * the arguments are escaped twice.
+ *
+ * @throws If an argument contains a line break, which can't be escaped
+ */
+const toBatchCommandLine = (command: string, args: string[]): string => {
+	const escapeArgument = (arg: string) => {
+		if (/[\r\n]/.test(arg)) {
+			throw new Error(
+				`Failed to spawn the language server with "${command}": batch files can't receive arguments containing line breaks`,
+			);
+		}
+
+		// Backslashes are only special before a quote, including the closing one
+		const quoted = `"${arg.replace(/(\\*)"/g, '$1$1\\"').replace(/(\\*)$/, "$1$1")}"`;
+
+		return quoted
+			.replace(cmdMetaCharacters, "^$1")
+			.replace(cmdMetaCharacters, "^$1");
+	};
+
+	return [
+		command.replace(cmdMetaCharacters, "^$1"),
+		...args.map(escapeArgument),
+	].join(" ");
+};
+
+/**
+ * Connects to a socket
+ *
+ * @returns The connected socket, or `undefined` if nothing listens on it
+ */
+const connectToSocket = (path: string): Promise<Socket | undefined> => {
+	return new Promise((resolve) => {
+		const socket = connect(path);
+		socket.once("connect", () => resolve(socket));
+		socket.once("error", () => resolve(undefined));
+	});
+};
+
 class BiomeLanguageClient extends LanguageClient {
 	protected fillInitializeParams(params: InitializeParams): void {
 		super.fillInitializeParams(params);
@@ -0,0 +1,166 @@
+import {
+	type Disposable,
+	EventEmitter,
+	MarkdownString,
+	ThemeColor,
+	ThemeIcon,
+	type TreeDataProvider,
+	TreeItem,
+	TreeItemCollapsibleState,
+	window,
+} from "vscode";
+import Biome from "./biome";
+import type Extension from "./extension";
+import { strategyDescriptions } from "./resolution-report";
+import type { State } from "./types";
+
+/**
+ * A detail row displayed under a Biome instance
+ */
+type InstanceDetail = {
+	biome: Biome;
+	label: string;
+	value: string;
+};
+
+type SessionsViewElement = Biome | InstanceDetail;
+
+/**
+ * Icons representing the state of a Biome instance
+ */
+const stateIcons: Record<State, ThemeIcon> = {
+	starting: new ThemeIcon("loading~spin"),
+	ready: new ThemeIcon("pass", new ThemeColor("testing.iconPassed")),
+	error: new ThemeIcon("error", new ThemeColor("errorForeground")),
+	"binary-not-found": new ThemeIcon(
+		"search-stop",
+		new ThemeColor("errorForeground"),
+	),
+	"unsupported-version": new ThemeIcon(
+		"versions",
+		new ThemeColor("errorForeground"),
+	),
+	disabled: new ThemeIcon("circle-slash"),
+	"no-configuration": new ThemeIcon("circle-outline"),
+	stopped: new ThemeIcon("debug-stop"),
+	restarting: new ThemeIcon("sync~spin"),
+	idle: new ThemeIcon("clock"),
+	crashed: new ThemeIcon("warning", new ThemeColor("errorForeground")),
+};
+
+export default class SessionsView
+	implements TreeDataProvider<SessionsViewElement>
+{
+	/**
+	 * The identifier of the view, as declared in package.json
+	 */
+	public static readonly id = "biome.sessions";
+
+	/**
+	 * Emits when the tree should be refreshed
+	 */
+	private readonly emitter = new EventEmitter<
+		SessionsViewElement | undefined
+	>();
+
+	/**
+	 * Event fired when the tree changes
+	 */
+	public readonly onDidChangeTreeData = this.emitter.event;
+
+	/**
+	 * Creates a new sessions view
+	 */
+	constructor(private readonly extension: Extension) {}
+
+	/**
+	 * Registers the sessions view
+	 */
+	public register(): Disposable[] {
+		return [
+			this.emitter,
+			window.createTreeView(SessionsView.id, {
+				treeDataProvider: this,
+				showCollapseAll: true,
+			}),
+		];
+	}
+
+	/**
+	 * Refreshes the sessions view
+	 */
+	public refresh(): void {
+		this.emitter.fire(undefined);
+	}
+
+	public getChildren(element?: SessionsViewElement): SessionsViewElement[] {
+		if (!element) {
+			return Array.from(this.extension.biomes.values());
+		}
+
+		if (element instanceof Biome) {
+			return this.getDetails(element);
+		}
+
+		return [];
+	}
+
+	public getTreeItem(element: SessionsViewElement): TreeItem {
+		if (element instanceof Biome) {
+			return this.createInstanceItem(element);
+		}
+
+		const item = new TreeItem(element.label, TreeItemCollapsibleState.None);
+		item.description = element.value;
+		item.tooltip = element.value;
+		item.contextValue = "detail";
+
+		return item;
+	}
+
+	/**
+	 * Creates the tree item representing a Biome instance
+	 */
+	private createInstanceItem(biome: Biome): TreeItem {
+		const item = new TreeItem(biome.name, TreeItemCollapsibleState.Collapsed);
+
+		item.iconPath = stateIcons[biome.state];
+		item.description = biome.version
+			? `${biome.state} · ${biome.version}`
+			: biome.state;
+		item.contextValue = `instance-${biome.state}`;
+
+		const tooltip = new MarkdownString(`**${biome.name}**\n\n`);
+		for (const { label, value } of this.getDetails(biome)) {
+			tooltip.appendMarkdown(`- ${label}: `);
+			tooltip.appendText(value);
+			tooltip.appendMarkdown("\n");
+		}
+		item.tooltip = tooltip;
+
+		return item;
+	}
+
+	/**
+	 * Retrieves the details displayed under a Biome instance
+	 */
+	private getDetails(biome: Biome): InstanceDetail[] {
+		return [
+			{
+				label: "State",
+				value: biome.reason ? `${biome.state}: ${biome.reason}` : biome.state,
+			},
+			{ label: "Version", value: biome.version ?? "unknown" },
+			{ label: "Binary", value: biome.session?.bin.fsPath ?? "none" },
+			{
+				label: "Found in",
+				value: biome.strategy ? strategyDescriptions[biome.strategy] : "n/a",
+			},
+			{
+				label: "Root",
+				value: biome.session?.selectorRoot?.fsPath ?? "none",
+			},
+			{ label: "Daemon", value: biome.session?.daemonSocket ?? "none" },
+		].map((detail) => ({ biome, ...detail }));
+	}
+}
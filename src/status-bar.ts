@@ -1,4 +1,5 @@
 import {
+	MarkdownString,
 	StatusBarAlignment,
 	type StatusBarItem,
 	ThemeColor,
@@ -6,6 +7,27 @@ import {
 } from "vscode";
 import { supportedLanguages } from "./constants";
 import type Extension from "./extension";
+import { strategyDescriptions } from "./resolution-report";
+import type { State } from "./types";
+
+/**
+ * Messages displayed when a Biome instance fails without a specific reason
+ */
+const failureMessages: Partial<Record<State, string>> & { error: string } = {
+	error: "There was an error starting Biome.",
+	"binary-not-found": "Unable to find the Biome binary.",
+	"unsupported-version": "The version of Biome in use is not supported.",
+	crashed: "The Biome language server crashed.",
+};
+
+/**
+ * Commands that can be run from the links in the tooltip
+ */
+const tooltipCommands = [
+	"biome.restartFolder",
+	"biome.showLogs",
+	"biome.showResolutionReport",
+];
 
 export class StatusBar {
 	/**
@@ -13,6 +35,11 @@ export class StatusBar {
 	 */
 	private statusBarItem: StatusBarItem;
 
+	/**
+	 * The status bar item describing the local build, in contributor mode
+	 */
+	private buildItem: StatusBarItem;
+
 	/**
 	 * Create a new status bar
 	 */
@@ -22,6 +49,13 @@ export class StatusBar {
 			StatusBarAlignment.Right,
 			100,
 		);
+
+		this.buildItem = window.createStatusBarItem(
+			"build",
+			StatusBarAlignment.Right,
+			99,
+		);
+		this.buildItem.name = "Biome Build";
 	}
 
 	/**
@@ -29,6 +63,7 @@ export class StatusBar {
 	 */
 	public hide() {
 		this.statusBarItem.hide();
+		this.buildItem.hide();
 	}
 
 	/**
@@ -60,18 +95,29 @@ export class StatusBar {
 			return;
 		}
 
+		this.showBuild();
+
 		// Reflect the state of the active Biome instance in the status bar item
 		switch (this.extension.biome?.state) {
 			case "starting":
 				this.showStarting();
 				break;
+			case "restarting":
+				this.showStarting("Biome is restarting...");
+				break;
 			case "ready":
 				this.showReady();
 				break;
 			case "error":
+			case "binary-not-found":
+			case "unsupported-version":
+			case "crashed":
 				this.showError();
 				break;
 			case "disabled":
+			case "no-configuration":
+			case "stopped":
+			case "idle":
 				this.hide();
 				break;
 			default:
@@ -86,10 +132,14 @@ export class StatusBar {
 	 * This renders the Biome logo along with a loading spinner to indicate
 	 * that Biome is starting up.
 	 */
-	public showStarting() {
+	public showStarting(tooltip = "Biome is starting...") {
 		this.statusBarItem.text = `$(biome-logo)$(loading~spin)`;
 		this.statusBarItem.backgroundColor = undefined;
-		this.statusBarItem.tooltip = "Biome is starting...";
+		this.statusBarItem.tooltip = this.createTooltip(tooltip);
+		this.statusBarItem.command = {
+			title: "Show actions",
+			command: "biome.showQuickActions",
+		};
 		this.statusBarItem.show();
 	}
 
@@ -105,10 +155,10 @@ export class StatusBar {
 	 */
 	public showReady() {
 		this.statusBarItem.command = {
-			title: "Open logs",
-			command: `biome.showLogs`,
+			title: "Show actions",
+			command: "biome.showQuickActions",
 		};
-		this.statusBarItem.tooltip = "Show logs";
+		this.statusBarItem.tooltip = this.createTooltip("Biome is ready.");
 
 		if (this.extension.biome?.version === "0.0.0") {
 			this.statusBarItem.text = `$(biome-logo) dev`;
@@ -126,23 +176,170 @@ export class StatusBar {
 		this.statusBarItem.show();
 	}
 
+	/**
+	 * Show the build of the active Biome instance, if it was built by cargo
+	 *
+	 * This renders the commit checked out in the repository, and details when
+	 * the binary was built in the tooltip, which lets contributors make sure
+	 * they run their latest changes.
+	 */
+	public showBuild() {
+		const biome = this.extension.biome;
+		const build = biome?.build;
+
+		if (biome?.state !== "ready" || !build) {
+			this.buildItem.hide();
+			return;
+		}
+
+		const builtAt = build.builtAt?.toLocaleString() ?? "unknown";
+		const tooltip = new MarkdownString(undefined, true);
+
+		tooltip.appendMarkdown("**Contributor mode**\n\n");
+		tooltip.appendMarkdown("- Binary: ");
+		tooltip.appendText(biome.session?.bin.fsPath ?? "none");
+		tooltip.appendMarkdown("\n- Built: ");
+		tooltip.appendText(builtAt);
+		tooltip.appendMarkdown("\n- Checked-out commit: ");
+		tooltip.appendText(build.checkout ?? "unknown");
+
+		if (build.outdated) {
+			tooltip.appendMarkdown(
+				"\n\n$(warning) The checked-out commit is more recent than the build. Rebuild Biome to run it.",
+			);
+		}
+
+		this.buildItem.text = `$(${build.outdated ? "warning" : "tools"}) ${build.checkout ?? "local build"}`;
+		this.buildItem.tooltip = tooltip;
+		this.buildItem.command = {
+			title: "Show actions",
+			command: "biome.showQuickActions",
+		};
+		this.buildItem.show();
+	}
+
 	/**
 	 * Show the status bar as "error"
 	 *
 	 * This renders the Biome logo along with a red background color to
-	 * indicate that there was an error starting up Biome.
+	 * indicate that there was an error starting up Biome. The tooltip explains
+	 * what went wrong, based on the transition that led to the failure.
 	 */
 	public showError() {
+		const biome = this.extension.biome;
+		const message =
+			biome?.reason ??
+			(biome && failureMessages[biome.state]) ??
+			failureMessages.error;
+
 		this.statusBarItem.text = `$(biome-logo)`;
-		this.statusBarItem.tooltip =
-			"There was an error starting Biome. Click here to view the logs.";
+		this.statusBarItem.tooltip = this.createTooltip(message);
 		this.statusBarItem.backgroundColor = new ThemeColor(
 			"statusBarItem.errorBackground",
 		);
 		this.statusBarItem.command = {
-			title: "Open logs",
-			command: `biome.showLogs`,
+			title: "Show actions",
+			command: "biome.showQuickActions",
 		};
 		this.statusBarItem.show();
 	}
+
+	/**
+	 * Creates the tooltip of the status bar item
+	 *
+	 * The tooltip details the active Biome instance, summarizes how its binary
+	 * was found, and links to the most common commands.
+	 *
+	 * @param headline A short sentence describing the state of the instance
+	 */
+	private createTooltip(headline: string): MarkdownString {
+		const biome = this.extension.biome;
+		const tooltip = new MarkdownString(undefined, true);
+		tooltip.isTrusted = { enabledCommands: tooltipCommands };
+
+		if (!biome) {
+			return tooltip.appendText(headline);
+		}
+
+		tooltip.appendMarkdown("**");
+		tooltip.appendText(`Biome (${biome.name})`);
+		tooltip.appendMarkdown("**\n\n");
+		tooltip.appendText(headline);
+		tooltip.appendMarkdown("\n\n");
+
+		const readySince = biome.readySince;
+		const details = [
+			["Version", biome.version ?? "unknown"],
+			["Binary", biome.session?.bin.fsPath ?? "none"],
+			[
+				"Found in",
+				biome.strategy ? strategyDescriptions[biome.strategy] : "n/a",
+			],
+			["Configuration", biome.configurationFile?.fsPath ?? "default"],
+			["Watcher", biome.session?.watcherKind ?? "default"],
+			["Daemon", biome.session?.daemonSocket ?? "none"],
+			// The tooltip is only rebuilt when the state changes, so we show when
+			// the instance became ready rather than a duration that would go stale.
+			["Ready since", readySince?.toLocaleString() ?? "n/a"],
+		];
+
+		for (const [label, value] of details) {
+			tooltip.appendMarkdown(`- ${label}: `);
+			tooltip.appendText(value);
+			tooltip.appendMarkdown("\n");
+		}
+
+		const mismatch = this.describeVersionMismatch();
+
+		if (mismatch) {
+			tooltip.appendMarkdown(
+				"\n$(warning) Workspace folders use different versions of Biome: ",
+			);
+			tooltip.appendText(mismatch);
+			tooltip.appendMarkdown("\n");
+		}
+
+		const report = biome.resolutionReport;
+
+		if (report) {
+			tooltip.appendMarkdown("\nBinary resolution:\n");
+			tooltip.appendCodeblock(report.summarize(), "text");
+		}
+
+		tooltip.appendMarkdown(
+			"\n[$(debug-restart) Restart](command:biome.restartFolder) · " +
+				"[$(output) Logs](command:biome.showLogs) · " +
+				"[$(search) Resolution report](command:biome.showResolutionReport)",
+		);
+
+		return tooltip;
+	}
+
+	/**
+	 * Describes the versions of Biome used by the workspace folders, if they
+	 * don't all use the same one.
+	 */
+	private describeVersionMismatch(): string | undefined {
+		const folders = new Map<string, string[]>();
+
+		for (const biome of this.extension.biomes.values()) {
+			if (!biome.workspaceFolder || !biome.version) {
+				continue;
+			}
+
+			folders.set(biome.version, [
+				...(folders.get(biome.version) ?? []),
+				biome.name,
+			]);
+		}
+
+		if (folders.size <= 1) {
+			return undefined;
+		}
+
+		return Array.from(
+			folders,
+			([version, names]) => `${version} (${names.join(", ")})`,
+		).join(", ");
+	}
 }
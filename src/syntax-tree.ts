@@ -0,0 +1,244 @@
+import {
+	type Disposable,
+	EventEmitter,
+	Range,
+	type TextDocument,
+	type TextDocumentContentProvider,
+	type TextEditor,
+	type TextEditorDecorationType,
+	TextEditorRevealType,
+	ThemeColor,
+	Uri,
+	ViewColumn,
+	window,
+	workspace,
+} from "vscode";
+import { supportedLanguages } from "./constants";
+import type Extension from "./extension";
+import { debounce } from "./utils";
+
+/**
+ * Matches the source range of a node in the syntax tree
+ *
+ * @example "JsModule@0..12" -> ["0", "12"]
+ */
+const nodeRangePattern = /@(\d+)\.\.(\d+)/;
+
+export default class SyntaxTree implements TextDocumentContentProvider {
+	/**
+	 * The URI scheme of the syntax tree document
+	 */
+	public static readonly scheme = "biome";
+
+	/**
+	 * The URI of the syntax tree document
+	 *
+	 * The `.rast` extension ensures the document is associated with the
+	 * `biome_syntax_tree` language and highlighted accordingly.
+	 */
+	public static readonly uri = Uri.from({
+		scheme: SyntaxTree.scheme,
+		path: "/syntax-tree.rast",
+	});
+
+	/**
+	 * Emits when the syntax tree document should be refreshed
+	 */
+	private readonly emitter = new EventEmitter<Uri>();
+
+	/**
+	 * Decoration used to highlight the source range of the selected node
+	 */
+	private readonly decoration: TextEditorDecorationType;
+
+	/**
+	 * The document whose syntax tree is currently displayed
+	 */
+	private source: TextDocument | undefined;
+
+	/**
+	 * Event fired when the syntax tree document changes
+	 */
+	public readonly onDidChange = this.emitter.event;
+
+	/**
+	 * Creates a new syntax tree provider
+	 */
+	constructor(private readonly extension: Extension) {
+		this.decoration = window.createTextEditorDecorationType({
+			backgroundColor: new ThemeColor("editor.wordHighlightStrongBackground"),
+			borderColor: new ThemeColor("editor.wordHighlightStrongBorder"),
+			borderStyle: "solid",
+			borderWidth: "1px",
+		});
+	}
+
+	/**
+	 * Registers the syntax tree provider and its listeners
+	 */
+	public register(): Disposable[] {
+		return [
+			this.emitter,
+			this.decoration,
+			workspace.registerTextDocumentContentProvider(SyntaxTree.scheme, this),
+			workspace.onDidChangeTextDocument(
+				debounce((event) => {
+					if (event.document === this.source) {
+						this.refresh();
+					}
+				}),
+			),
+			window.onDidChangeActiveTextEditor((editor) => {
+				if (this.isOpen && editor && this.isSupported(editor.document)) {
+					this.source = editor.document;
+					this.refresh();
+				}
+			}),
+			window.onDidChangeTextEditorSelection((event) => {
+				if (event.textEditor.document.uri.toString() === this.uriString) {
+					this.highlight(event.textEditor);
+				}
+			}),
+		];
+	}
+
+	/**
+	 * Shows the syntax tree of the document in the active text editor
+	 */
+	public async show(): Promise<void> {
+		const document = window.activeTextEditor?.document;
+
+		if (!document || !this.isSupported(document)) {
+			window.showWarningMessage(
+				"Open a file supported by Biome to show its syntax tree.",
+			);
+			return;
+		}
+
+		this.source = document;
+		this.refresh();
+
+		const tree = await workspace.openTextDocument(SyntaxTree.uri);
+
+		await window.showTextDocument(tree, {
+			viewColumn: ViewColumn.Beside,
+			preserveFocus: true,
+			preview: false,
+		});
+	}
+
+	/**
+	 * Provides the content of the syntax tree document
+	 */
+	public async provideTextDocumentContent(): Promise<string> {
+		if (!this.source) {
+			return "";
+		}
+
+		const biome = this.extension.getBiome(this.source);
+
+		if (!biome?.session) {
+			return `Biome is not running for "${this.source.uri.fsPath}".`;
+		}
+
+		if (
+			biome.state === "ready" &&
+			!biome.session.capabilities?.supports("syntaxTree")
+		) {
+			return "The language server doesn't support syntax trees.";
+		}
+
+		try {
+			return (
+				(await biome.session.getSyntaxTree(this.source.uri)) ??
+				"Biome is not ready yet."
+			);
+		} catch (error) {
+			biome.logger.error(`Failed to retrieve the syntax tree: ${error}`);
+			return `Failed to retrieve the syntax tree: ${error}`;
+		}
+	}
+
+	/**
+	 * Requests a refresh of the syntax tree document
+	 */
+	private refresh(): void {
+		this.emitter.fire(SyntaxTree.uri);
+	}
+
+	/**
+	 * Highlights the source range of the node under the cursor
+	 *
+	 * This method parses the range of the node on the line of the cursor in
+	 * the syntax tree editor, and highlights that range in the source editor.
+	 */
+	private highlight(treeEditor: TextEditor): void {
+		const sourceEditor = window.visibleTextEditors.find(
+			(editor) => editor.document === this.source,
+		);
+
+		if (!sourceEditor) {
+			return;
+		}
+
+		const line = treeEditor.document.lineAt(treeEditor.selection.active.line);
+		const match = line.text.match(nodeRangePattern);
+
+		if (!match) {
+			sourceEditor.setDecorations(this.decoration, []);
+			return;
+		}
+
+		const document = sourceEditor.document;
+		const range = new Range(
+			positionAt(document, Number(match[1])),
+			positionAt(document, Number(match[2])),
+		);
+
+		sourceEditor.setDecorations(this.decoration, [range]);
+		sourceEditor.revealRange(
+			range,
+			TextEditorRevealType.InCenterIfOutsideViewport,
+		);
+	}
+
+	/**
+	 * Whether the syntax tree document is currently visible
+	 */
+	private get isOpen(): boolean {
+		return window.visibleTextEditors.some(
+			(editor) => editor.document.uri.toString() === this.uriString,
+		);
+	}
+
+	/**
+	 * The URI of the syntax tree document, as a string for comparisons
+	 */
+	private get uriString(): string {
+		return SyntaxTree.uri.toString();
+	}
+
+	/**
+	 * Whether Biome can provide a syntax tree for the document
+	 */
+	private isSupported(document: TextDocument): boolean {
+		return (
+			document.uri.scheme !== SyntaxTree.scheme &&
+			supportedLanguages.includes(document.languageId)
+		);
+	}
+}
+
+/**
+ * Converts a byte offset to a position in a document
+ *
+ * Biome reports text ranges as UTF-8 byte offsets, whereas VS Code works with
+ * UTF-16 code units, so we need to convert between the two.
+ */
+const positionAt = (document: TextDocument, offset: number) => {
+	const prefix = Buffer.from(document.getText(), "utf8")
+		.subarray(0, offset)
+		.toString("utf8");
+
+	return document.positionAt(prefix.length);
+};
@@ -1,3 +1,5 @@
+import type { CancellationToken, Uri } from "vscode";
+
 /**
  * Execution Mode
  *
@@ -17,6 +19,162 @@ export type ExecutionMode = "single-root" | "multi-root" | "single-file";
  * - `starting`: The Biome instance is starting.
  * - `ready`: The Biome instance is ready.
  * - `error`: The Biome instance has encountered an error.
+ * - `binary-not-found`: No Biome binary could be found for the instance.
+ * - `unsupported-version`: The Biome binary found for the instance has a
+ *   version that is not supported.
  * - `disabled`: The Biome instance is disabled.
+ * - `no-configuration`: The Biome instance requires a configuration file, but
+ *   none was found.
+ * - `stopped`: The Biome instance has been stopped.
+ * - `restarting`: The Biome instance is being restarted.
+ * - `idle`: The Biome instance waits for a document to be opened before
+ *   starting.
+ * - `crashed`: The language server of the Biome instance exited unexpectedly.
+ */
+export type State =
+	| "starting"
+	| "ready"
+	| "error"
+	| "binary-not-found"
+	| "unsupported-version"
+	| "disabled"
+	| "no-configuration"
+	| "stopped"
+	| "restarting"
+	| "idle"
+	| "crashed";
+
+/**
+ * Transition between two states of a Biome instance
+ *
+ * Transitions are emitted every time a Biome instance changes state, so
+ * consumers can tell where the instance comes from and why it changed.
+ */
+export type StateTransition = {
+	/**
+	 * The state the instance transitioned to
+	 */
+	state: State;
+
+	/**
+	 * The state the instance transitioned from
+	 */
+	previous: State;
+
+	/**
+	 * Human-readable explanation of the transition, if any
+	 */
+	reason?: string;
+
+	/**
+	 * The error that caused the transition, if any
+	 */
+	error?: unknown;
+};
+
+/**
+ * Locator strategy
+ *
+ * This defines the strategies used to locate the Biome binary.
+ *
+ * - `contributor`: The binary was built by cargo, in contributor mode.
+ * - `pinned`: The binary was pinned with the `Biome: Select Binary` command.
+ * - `settings`: The binary was specified in the `biome.lsp.bin` setting.
+ * - `node-modules`: The binary was found in the project's `node_modules`.
+ * - `global-node-modules`: The binary was found in the global `node_modules`.
+ * - `yarn-pnp`: The binary was resolved through Yarn Plug'n'Play.
+ * - `path`: The binary was found in the `PATH` environment variable.
+ */
+export type LocatorStrategy =
+	| "contributor"
+	| "pinned"
+	| "settings"
+	| "node-modules"
+	| "global-node-modules"
+	| "yarn-pnp"
+	| "path";
+
+/**
+ * Biome binary found by the locator
+ */
+export type LocatedBinary = {
+	/**
+	 * URI of the Biome binary
+	 */
+	uri: Uri;
+
+	/**
+	 * The strategy that found the binary
+	 */
+	strategy: LocatorStrategy;
+};
+
+/**
+ * Package manager used by a project
+ */
+export type PackageManager = "npm" | "yarn" | "pnpm" | "bun" | "deno";
+
+/**
+ * Phase of the startup of a Biome instance
+ *
+ * - `locating`: The Biome binary is being looked for.
+ * - `unshimming`: The real path of the Biome binary is being resolved.
+ * - `copying`: The Biome binary is being copied to a temporary location.
+ * - `spawning`: The language server is being spawned.
+ * - `initializing`: The language server is being initialized.
+ */
+export type StartupPhase =
+	| "locating"
+	| "unshimming"
+	| "copying"
+	| "spawning"
+	| "initializing";
+
+/**
+ * Options passed along the startup of a Biome instance
+ */
+export type StartupOptions = {
+	/**
+	 * Token used to cancel the startup
+	 */
+	token?: CancellationToken;
+
+	/**
+	 * Callback notified when the startup enters a new phase
+	 */
+	onPhase?: (phase: StartupPhase) => void;
+};
+
+/**
+ * Information about a Biome binary built locally, in contributor mode
+ */
+export type BuildInfo = {
+	/**
+	 * When the binary was built
+	 */
+	builtAt?: Date;
+
+	/**
+	 * The abbreviated hash of the commit checked out in the repository
+	 *
+	 * This isn't necessarily the commit the binary was built from, since the
+	 * repository may have changed since the last build.
+	 */
+	checkout?: string;
+
+	/**
+	 * Whether the checked-out commit was made after the binary was built,
+	 * meaning the binary is likely outdated
+	 */
+	outdated?: boolean;
+};
+
+/**
+ * How the language server relates to the Biome daemon
+ *
+ * - `off`: A dedicated language server is spawned for the instance.
+ * - `connect`: The instance connects to a daemon started with `biome start`.
+ * - `start`: The instance connects to the daemon, and starts one if none is
+ *   running.
  */
-export type State = "starting" | "ready" | "error" | "disabled";
+export type DaemonMode = "off" | "connect" | "start";
@@ -1,16 +1,18 @@
-import {
-	type SpawnSyncOptionsWithStringEncoding,
-	spawnSync,
-} from "node:child_process";
+import { type ChildProcess, spawn } from "node:child_process";
+import { createHash } from "node:crypto";
+import { createReadStream } from "node:fs";
 import { extname, isAbsolute } from "node:path";
 import {
+	type CancellationToken,
 	type ConfigurationScope,
+	type Disposable,
 	FileType,
 	Uri,
 	type WorkspaceFolder,
 	workspace,
 } from "vscode";
 import { Utils } from "vscode-uri";
+import { configurationFileNames } from "./constants";
 
 /**
  * Checks whether a file exists
@@ -30,6 +32,26 @@ export const fileExists = async (uri: Uri): Promise<boolean> => {
 	}
 };
 
+/**
+ * Computes the SHA-256 hash of a file
+ *
+ * The file is streamed, so that large binaries don't have to be loaded in
+ * memory at once.
+ *
+ * @param path Path of the file to hash
+ * @returns The hexadecimal hash, or `undefined` if the file cannot be read
+ */
+export const hashFile = (path: string): Promise<string | undefined> => {
+	return new Promise((resolve) => {
+		const hash = createHash("sha256");
+
+		createReadStream(path)
+			.on("data", (chunk) => hash.update(chunk))
+			.on("end", () => resolve(hash.digest("hex")))
+			.on("error", () => resolve(undefined));
+	});
+};
+
 /**
  * Retrieves a setting
  *
@@ -102,6 +124,62 @@ export const getLspBin = (
 	}
 };
 
+/**
+ * Retrieves the `biome.configurationPath` setting
+ *
+ * This function retrieves the `biome.configurationPath` setting from the given
+ * scope. Relative paths are resolved against the given root, which defaults to
+ * the root of the workspace folder, and are ignored when there's no root.
+ */
+export const getConfigurationPath = (
+	workspaceFolder?: WorkspaceFolder,
+	root: Uri | undefined = workspaceFolder?.uri,
+): Uri | undefined => {
+	const configurationPath = config<string | null>("configurationPath", {
+		scope: workspaceFolder,
+	});
+
+	if (!configurationPath) {
+		return;
+	}
+
+	// If the specified path is relative, resolve it against the root, since
+	// it would otherwise be resolved against the root of the filesystem.
+	if (!isAbsolute(configurationPath)) {
+		return root
+			? Uri.file(Utils.resolvePath(root, configurationPath).fsPath)
+			: undefined;
+	}
+
+	return Uri.file(configurationPath);
+};
+
+/**
+ * Finds the Biome configuration file at the given path
+ *
+ * The path may either point directly to a configuration file, or to a
+ * directory containing one of the supported configuration files.
+ *
+ * @param path Path to a configuration file or to a directory
+ * @returns URI of the configuration file, if it exists
+ */
+export const findConfigurationFile = async (
+	path: Uri,
+): Promise<Uri | undefined> => {
+	if (await fileExists(path)) {
+		return path;
+	}
+
+	for (const name of configurationFileNames) {
+		const candidate = Uri.joinPath(path, name);
+		if (await fileExists(candidate)) {
+			return candidate;
+		}
+	}
+
+	return undefined;
+};
+
 /**
  * Debounces a function
  *
@@ -120,39 +198,118 @@ export const debounce = <TArgs extends unknown[]>(
 	};
 };
 
-export type SafeSpawnSyncOptions = Omit<
-	SpawnSyncOptionsWithStringEncoding,
-	"encoding"
->;
+/**
+ * Runs an asynchronous function over items with limited concurrency
+ *
+ * This function calls the given function for every item, making sure that no
+ * more than `limit` calls are pending at any time. It resolves once all
+ * calls have settled.
+ */
+export const forEachConcurrently = async <T>(
+	items: readonly T[],
+	limit: number,
+	fn: (item: T) => Promise<void>,
+): Promise<void> => {
+	const queue = [...items];
+
+	const worker = async () => {
+		for (let item = queue.shift(); item !== undefined; item = queue.shift()) {
+			try {
+				await fn(item);
+			} catch {
+				// Errors are expected to be handled by the function itself, we
+				// only make sure that one failure doesn't stop the other workers.
+			}
+		}
+	};
+
+	await Promise.all(
+		Array.from({ length: Math.max(1, Math.min(limit, queue.length)) }, worker),
+	);
+};
+
+export type SafeSpawnOptions = {
+	/**
+	 * Working directory of the process
+	 */
+	cwd?: string;
+
+	/**
+	 * Whether to run the command inside a shell
+	 */
+	shell?: boolean;
+
+	/**
+	 * Time after which the process is killed, in milliseconds
+	 */
+	timeout?: number;
+
+	/**
+	 * Token used to kill the process when cancellation is requested
+	 */
+	token?: CancellationToken;
+};
 
-export const safeSpawnSync = (
+/**
+ * Runs a command without blocking the extension host
+ *
+ * This function runs the given command and resolves with its trimmed standard
+ * output. It never rejects: if the command cannot be spawned, exits with a
+ * non-zero status, times out or is cancelled, it resolves with `undefined`.
+ */
+export const safeSpawn = (
 	command: string,
 	args: readonly string[] = [],
-	options?: SafeSpawnSyncOptions,
-): string | undefined => {
-	let output: string | undefined;
-
+	{ cwd, shell, timeout = 10_000, token }: SafeSpawnOptions = {},
+): Promise<string | undefined> => {
 	// If the command is a powershell script, run it through powershell
 	if (extname(command) === ".ps1") {
 		args = [command, ...args];
 		command = "powershell.exe";
 	}
 
-	try {
-		const result = spawnSync(command, args, {
-			...(options ?? {}),
-			encoding: "utf8",
-		});
+	return new Promise((resolve) => {
+		let stdout = "";
+		let settled = false;
+		let timer: NodeJS.Timeout | undefined;
+		let cancellation: Disposable | undefined;
+		let child: ChildProcess;
+
+		const settle = (output: string | undefined) => {
+			if (settled) {
+				return;
+			}
 
-		if (result.error || result.status !== 0) {
-			output = undefined;
-		} else {
-			const trimmed = result.stdout.trim();
-			output = trimmed ? trimmed : undefined;
+			settled = true;
+			clearTimeout(timer);
+			cancellation?.dispose();
+			resolve(output);
+		};
+
+		try {
+			child = spawn(command, args, { cwd, shell, windowsHide: true });
+		} catch {
+			settle(undefined);
+			return;
 		}
-	} catch {
-		output = undefined;
-	}
 
-	return output;
+		const kill = () => {
+			child.kill();
+			settle(undefined);
+		};
+
+		timer = setTimeout(kill, timeout);
+		cancellation = token?.onCancellationRequested(kill);
+
+		child.stdout?.setEncoding("utf8");
+		child.stdout?.on("data", (chunk: string) => {
+			stdout += chunk;
+		});
+
+		child.on("error", () => settle(undefined));
+		child.on("close", (code) => {
+			const trimmed = stdout.trim();
+			settle(code === 0 && trimmed ? trimmed : undefined);
+		});
+	});
 };